@@ -22,33 +22,18 @@ import path, { dirname } from 'path';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-import readline from 'readline';
-import { TraceParser, InstanceDecl, MessageOccurrance, TraceParserUtils } from 'art-trace';
-import { trace } from 'console';
+import { TraceDocument, MessageOccurrance } from 'art-trace';
 
 const filePath = path.join(__dirname, '../traces/MoreOrLess/trace-with-timestamps.art-trace');
 
 const input = fs.createReadStream(filePath, { encoding: 'utf8' });
-const rl = readline.createInterface({ input, crlfDelay: Infinity });
 try {
-    let i = 0;
-    let instanceMap = new Map<string, InstanceDecl>();
-    
-    let applicationParticipantDeclared = false;
-    let systemParticipantDeclared = false;
-    let timerParticipantDeclared = false;
-    
-    let traceParser = new TraceParser();
+    let traceDocument = new TraceDocument();
 
-    for await (const line of rl) {        
-        let astNode = traceParser.parseLine(line, i++);
-        if (astNode instanceof InstanceDecl) {
-            instanceMap.set(astNode.address.text, astNode);
-        }   
-        else
+    for await (const astNode of traceDocument.parse(input)) {        
         if (astNode instanceof MessageOccurrance) {
-            let senderInst = instanceMap.get(astNode.sender.text);
-            let receiverInst = instanceMap.get(astNode.receiver.text);
+            let senderInst = traceDocument.getInstance(astNode.sender);
+            let receiverInst = traceDocument.getInstance(astNode.receiver);
             let senderType = senderInst ? senderInst.dynamicType.text : "";
             let receiverType = receiverInst ? receiverInst.dynamicType.text : "";
 
@@ -58,11 +43,10 @@ try {
     }
 
     // If trace configuration is available, print trace start time
-    if (traceParser.traceConfiguration && traceParser.traceConfiguration.hasOwnProperty('trace')) {
-        console.log("\n// Trace date:" + traceParser.traceConfiguration.trace.start_time);        
+    if (traceDocument.traceConfiguration?.trace.start_time) {
+        console.log("\n// Trace date:" + traceDocument.traceConfiguration.trace.start_time);        
     }
 }
 finally {
-    rl.close();
     input.close();
 }
@@ -22,8 +22,8 @@ import path, { dirname } from 'path';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-import readline from 'readline';
-import { TraceParser, MessageOccurrance } from 'art-trace';
+import { parseTrace } from 'art-trace';
+import { computeHandlingStatistics } from 'art-trace/handling-statistics';
 
 class HandleTime {
     diff: number;
@@ -40,23 +40,18 @@ const filePath = path.join(__dirname, '../traces/MoreOrLess/trace-with-timestamp
 const topCount = 5; // How many of the longest handling times to show
 
 const input = fs.createReadStream(filePath, { encoding: 'utf8' });
-const rl = readline.createInterface({ input, crlfDelay: Infinity });
 try {
-    let i = 0;  
     let handleTimes: HandleTime[] = [];  
     
-    let traceParser = new TraceParser();
+    let traceDocument = await parseTrace(input);
 
-    for await (const line of rl) {        
-        let astNode = traceParser.parseLine(line, i++);
-        if (astNode instanceof MessageOccurrance) {
-            if (astNode.data.time2_receive !== undefined && astNode.data.time3_handle !== undefined) {
-                let diff = astNode.data.time3_handle - astNode.data.time2_receive;
-                console.log(`Message ${astNode.event.text} handling time: ${diff} ns`);
+    for (const msg of traceDocument.messages) {        
+        if (msg.data.time2_receive !== undefined && msg.data.time3_handle !== undefined) {
+            // Normalize timestamps to nanoseconds, whatever precision the trace uses
+            let diff = traceDocument.timestamps.toNanoseconds(msg.data.time3_handle) - traceDocument.timestamps.toNanoseconds(msg.data.time2_receive);
+            console.log(`Message ${msg.event.text} handling time: ${diff} ns`);
 
-                handleTimes.push( new HandleTime(diff, astNode.event.text, i) );                
-            }
-            
+            handleTimes.push( new HandleTime(diff, msg.event.text, msg.event.line) );                
         }
     }
     if (handleTimes.length > 0) {
@@ -66,11 +61,18 @@ try {
             let ht = sorted[j];
             console.log(`--> ${ht.msg} on line ${ht.line} : ${ht.diff} ns`);
         }        
+
+        // Aggregated handling times per event
+        let report = computeHandlingStatistics(traceDocument);
+        console.log(`Handling times per event (mean / 95th percentile / max):`);
+        for (let group of report.groups.event) {
+            let stats = group.statistics;
+            console.log(`--> ${group.key} (${stats.count} messages) : ${stats.mean.toFixed(0)} / ${stats.percentiles['95']} / ${stats.max} ns`);
+        }
     } else {
         console.log("--> No message with timestamps found in trace");
     }
 }
 finally {
-    rl.close();
     input.close();
 }
@@ -0,0 +1,95 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+// Sample: Measure how fast traces are parsed, using generated traces of different kinds
+
+import { TraceParser } from 'art-trace';
+
+// Take number of lines to generate from command line arguments
+let lineCount = 1000000;
+process.argv.forEach(function (val, index, array) {
+    if (val.startsWith("--lines=")) {
+        lineCount = parseInt(val.substring("--lines=".length));
+    }
+});
+
+const configuration = [
+    '// {',
+    '//     "timestamps": { "mode": "relative", "precision": "nano", "time1_send": true, "time2_receive": true, "time3_handle": true }',
+    '//     , "trace": { "start_time": "2025-11-11 12:05:14.586791900", "application": "Benchmark" }',
+    '// }'
+];
+
+// Deterministic pseudo-random numbers, so that all runs parse the same traces
+let seed = 42;
+function random(max: number): number {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return Math.floor(seed / 2147483648 * max);
+}
+
+function address(): string {
+    return '0x' + (0x22cc6800000 + random(0xfffff)).toString(16);
+}
+
+function instanceLine(i: number): string {
+    return `instance ${address()} guesser[${i % 100}] : Guesser { "thread_name": "thread${i % 4}" }`;
+}
+
+function messageLine(i: number, time: number, withTimestamps: boolean): string {
+    let line = `${address()} guesser.guesserP -> ${address()} application.guesserP[${i % 100}] : guess(int ${random(1000)})`;
+    if (withTimestamps)
+        line += ` { "time1_send": ${time}, "time2_receive": ${time + random(1000)}, "time3_handle": ${time + 1000 + random(1000)} }`;
+    return line;
+}
+
+function noteLine(i: number, time: number): string {
+    return `note "Step ${i}" { "time": ${time} }`;
+}
+
+function malformedLine(i: number): string {
+    const lines = ['0x1 a.p -> 0x2 b guess()', 'instance 0x1 a $', 'this is not a trace line', '0x1 a -> 0x2 b : e() { "time2_receive": '];
+    return lines[i % lines.length];
+}
+
+// Each scenario generates one line of the trace
+const scenarios: { name: string, line: (i: number, time: number) => string }[] = [
+    { name: 'messages without timestamps', line: (i, time) => messageLine(i, time, false) },
+    { name: 'messages with timestamps', line: (i, time) => messageLine(i, time, true) },
+    { name: 'mixed instances, messages and notes', line: (i, time) => {
+        let kind = random(10);
+        return kind == 0 ? instanceLine(i) : kind == 1 ? noteLine(i, time) : messageLine(i, time, true);
+    }},
+    { name: 'mixed with 10% malformed lines', line: (i, time) => random(10) == 0 ? malformedLine(i) : messageLine(i, time, true) }
+];
+
+for (let scenario of scenarios) {
+    let lines = [...configuration];
+    for (let i = 0, time = 0; i < lineCount; i++, time += 2000) {
+        lines.push(scenario.line(i, time));
+    }
+
+    let traceParser = new TraceParser();
+    let nodeCount = 0;
+    let start = process.hrtime.bigint();
+    for (let i = 0; i < lines.length; i++) {
+        if (traceParser.parseLine(lines[i], i + 1))
+            nodeCount++;
+    }
+    let ms = Number(process.hrtime.bigint() - start) / 1e6;
+
+    console.log(`${scenario.name}: ${lines.length} lines parsed in ${ms.toFixed(0)} ms ` +
+        `(${Math.round(lines.length / ms * 1000)} lines/s, ${nodeCount} AST nodes, ${traceParser.diagnostics.length} diagnostics)`);
+}
@@ -22,8 +22,7 @@ import path, { dirname } from 'path';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-import readline from 'readline';
-import { TraceParser, InstanceDecl, MessageOccurrance, TraceParserUtils } from 'art-trace';
+import { TraceDocument, InstanceDecl, MessageOccurrance, TraceParserUtils } from 'art-trace';
 
 const filePath = path.join(__dirname, '../traces/MoreOrLess/trace-with-timestamps.art-trace');
 
@@ -32,25 +31,18 @@ const darkBlue = '#003366';
 const lightBlue = '#2e92b4';
 
 const input = fs.createReadStream(filePath, { encoding: 'utf8' });
-const rl = readline.createInterface({ input, crlfDelay: Infinity });
 try {
-    let i = 0;
-    let instanceMap = new Map<string, InstanceDecl>();
     console.log("@startuml");
     let applicationParticipantDeclared = false;
     let systemParticipantDeclared = false;
     let timerParticipantDeclared = false;
     
-    let traceParser = new TraceParser();
+    let traceDocument = new TraceDocument();
 
-    for await (const line of rl) {        
-        let astNode = traceParser.parseLine(line, i++);
-        if (astNode instanceof InstanceDecl) {
-            instanceMap.set(astNode.address.text, astNode);
-        }   
-        else if (astNode instanceof MessageOccurrance) {
-            let senderInst = instanceMap.get(astNode.sender.text);
-            let receiverInst = instanceMap.get(astNode.receiver.text);
+    for await (const astNode of traceDocument.parse(input)) {        
+        if (astNode instanceof MessageOccurrance) {
+            let senderInst = traceDocument.getInstance(astNode.sender);
+            let receiverInst = traceDocument.getInstance(astNode.receiver);
             if (senderInst && receiverInst) {
                 if (!applicationParticipantDeclared && (TraceParserUtils.isTopCapsuleInstance(senderInst) || TraceParserUtils.isTopCapsuleInstance(receiverInst))) {
                     applicationParticipantDeclared = true;
@@ -76,7 +68,6 @@ try {
     console.log("@enduml");
 }
 finally {
-    rl.close();
     input.close();
 }
 
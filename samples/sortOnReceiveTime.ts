@@ -45,11 +45,12 @@ async function sortOnReceiveTime(filePath : string) : Promise<string[]> {
     let rl = readline.createInterface({ input, crlfDelay: Infinity });
 
     try {              
-        let traceSorter = new TraceSorter(SortCriteria.RECEIVE_TIME);
+        // Messages with the same receive time are sorted on handle time
+        let traceSorter = new TraceSorter([SortCriteria.RECEIVE_TIME, SortCriteria.HANDLE_TIME]);
 
         let i = 0;
         for await (const line of rl) {        
-            traceSorter.parseLineForSorting(line, i++);            
+            traceSorter.parseLineForSorting(line, ++i);            
         }
         let sorted = traceSorter.getSortedMessages();
                 
@@ -0,0 +1,220 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+import { MessageOccurrance, TraceDocument } from "./trace-parser.js";
+
+/**
+ * A message in a causality graph. All times are in nanoseconds.
+ */
+export class CausalityNode {
+    readonly message : MessageOccurrance;
+    readonly sendTime : number | undefined;
+    readonly receiveTime : number | undefined;
+    readonly handleTime : number | undefined;
+    cause : CausalityNode | undefined = undefined; // The message during whose handling this message was sent
+    readonly effects : CausalityNode[] = []; // Messages sent during the handling of this message
+
+    constructor(message : MessageOccurrance, document : TraceDocument) {
+        this.message = message;
+        let toNanoseconds = (raw : number | undefined) => raw === undefined ? undefined : document.timestamps.toNanoseconds(raw);
+        this.sendTime = toNanoseconds(message.data.time1_send);
+        this.receiveTime = toNanoseconds(message.data.time2_receive);
+        this.handleTime = toNanoseconds(message.data.time3_handle);
+    }
+
+    /**
+     * The first known point in time of the message (when it was sent, or else when it was received or handled)
+     */
+    get startTime() : number | undefined {
+        return this.sendTime ?? this.receiveTime ?? this.handleTime;
+    }
+
+    /**
+     * The last known point in time of the message (when it was handled, or else when it was received or sent)
+     */
+    get endTime() : number | undefined {
+        return this.handleTime ?? this.receiveTime ?? this.sendTime;
+    }
+
+    /**
+     * The message that started the chain of messages that led to this message (e.g. an external stimulus)
+     */
+    get root() : CausalityNode {
+        let node : CausalityNode = this;
+        while (node.cause)
+            node = node.cause;
+        return node;
+    }
+
+    /**
+     * The chain of messages from the root to this message
+     */
+    get chain() : CausalityNode[] {
+        let chain : CausalityNode[] = [];
+        for (let node : CausalityNode | undefined = this; node; node = node.cause)
+            chain.push(node);
+        return chain.reverse();
+    }
+}
+
+/**
+ * A chain of messages where each message caused the next one
+ */
+export interface CausalPath {
+    nodes : CausalityNode[]; // From the first to the last message of the chain
+    start : number; // Start time of the first message
+    end : number; // End time of the last message
+    duration : number; // Nanoseconds from start to end
+}
+
+/**
+ * A graph where each message is linked to the message that caused it
+ */
+export class CausalityGraph {
+    readonly nodes : CausalityNode[] = []; // In the order of the messages in the trace
+    private readonly nodeOf = new Map<MessageOccurrance, CausalityNode>();
+
+    constructor(nodes : CausalityNode[]) {
+        for (let node of nodes) {
+            this.nodes.push(node);
+            this.nodeOf.set(node.message, node);
+        }
+    }
+
+    /**
+     * Messages without a known cause, for example external stimuli, timeouts and the initial messages of the application
+     */
+    get roots() : CausalityNode[] {
+        return this.nodes.filter(node => !node.cause);
+    }
+
+    public getNode(message : MessageOccurrance) : CausalityNode | undefined {
+        return this.nodeOf.get(message);
+    }
+
+    /**
+     * The chain of messages from the root of a message to the message itself. Use it to find out why
+     * a message (e.g. a response) was sent, and how long it took from the stimulus until it was handled.
+     */
+    public pathTo(message : MessageOccurrance) : CausalPath | undefined {
+        let node = this.getNode(message);
+        return node ? toCausalPath(node.chain) : undefined;
+    }
+
+    /**
+     * The longest end-to-end chain that starts at a root, i.e. the chain from the root to the message
+     * with the latest end time among the messages it caused directly or indirectly.
+     */
+    public criticalPathFrom(root : CausalityNode) : CausalPath | undefined {
+        let last : CausalityNode | undefined = undefined;
+        let stack = [root];
+        while (stack.length > 0) {
+            let node = stack.pop();
+            if (node.endTime !== undefined && (!last || node.endTime > last.endTime))
+                last = node;
+            stack.push(...node.effects);
+        }
+        if (!last)
+            return undefined;
+
+        let nodes = last.chain;
+        return toCausalPath(nodes.slice(nodes.indexOf(root)));
+    }
+
+    /**
+     * The critical path of each root, longest first
+     */
+    public criticalPaths() : CausalPath[] {
+        return this.roots.map(root => this.criticalPathFrom(root)).filter(path => path !== undefined).sort((a, b) => b.duration - a.duration);
+    }
+
+    /**
+     * The longest critical path of the trace
+     */
+    public criticalPath() : CausalPath | undefined {
+        return this.criticalPaths()[0];
+    }
+}
+
+function toCausalPath(nodes : CausalityNode[]) : CausalPath | undefined {
+    let start = nodes.find(node => node.startTime !== undefined)?.startTime;
+    let end = [...nodes].reverse().find(node => node.endTime !== undefined)?.endTime;
+    if (start === undefined || end === undefined)
+        return undefined;
+    return { nodes, start, end, duration: end - start };
+}
+
+/**
+ * Infer which message caused each message of a trace. A message is caused by the message whose handling
+ * (from time2_receive until time3_handle) was in progress on the sender's thread (see
+ * InstanceData.qualifiedThreadName(), so in a merged trace threads of different applications are kept apart)
+ * when the message was sent (time1_send). If several handlings were in progress (e.g. because of a synchronous
+ * invoke), the most recently started one is the cause. Messages without time1_send (except invokes, which are
+ * sent when they are received), and messages sent when no handling was in progress, have no cause.
+ * @param document the trace
+ */
+export function buildCausalityGraph(document : TraceDocument) : CausalityGraph {
+    let graph = new CausalityGraph(document.messages.map(msg => new CausalityNode(msg, document)));
+
+    // Per thread, the points in time where handlings start and where messages are sent
+    type ThreadEvent = {time : number, node : CausalityNode, kind : 'handle' | 'send'};
+    let eventsPerThread = new Map<string, ThreadEvent[]>();
+    let eventsOf = (thread : string) => {
+        if (!eventsPerThread.has(thread))
+            eventsPerThread.set(thread, []);
+        return eventsPerThread.get(thread);
+    };
+    for (let node of graph.nodes) {
+        let receiverThread = document.getInstance(node.message.receiver)?.data?.qualifiedThreadName();
+        if (receiverThread && node.receiveTime !== undefined && node.handleTime !== undefined)
+            eventsOf(receiverThread).push({ time: node.receiveTime, node, kind: 'handle' });
+        // An invoke is delivered immediately, so when it lacks time1_send it was sent when it was received
+        let sendTime = node.sendTime ?? (node.message.data.invoke !== undefined ? node.receiveTime : undefined);
+        let senderThread = document.getInstance(node.message.sender)?.data?.qualifiedThreadName();
+        if (senderThread && sendTime !== undefined)
+            eventsOf(senderThread).push({ time: sendTime, node, kind: 'send' });
+    }
+
+    // A cause must start to be handled before its effects (with ties broken by trace order). Normally the timestamps
+    // already ensure this, but with equal timestamps messages could otherwise become each other's causes.
+    let index = new Map(graph.nodes.map((node, i) => [node, i]));
+    let startsBefore = (cause : CausalityNode, effect : CausalityNode) =>
+        effect.receiveTime === undefined || cause.receiveTime < effect.receiveTime ||
+        (cause.receiveTime == effect.receiveTime && index.get(cause) < index.get(effect));
+
+    for (let events of eventsPerThread.values()) {
+        // A handling that starts at the same time as a message is sent encloses the send
+        events.sort((a, b) => a.time - b.time || (a.kind == b.kind ? 0 : a.kind == 'handle' ? -1 : 1));
+        let inProgress : CausalityNode[] = []; // Ordered by start of handling
+        for (let event of events) {
+            if (event.kind == 'handle') {
+                inProgress.push(event.node);
+                continue;
+            }
+            while (inProgress.length > 0 && inProgress[inProgress.length - 1].handleTime < event.time)
+                inProgress.pop();
+            for (let i = inProgress.length - 1; i >= 0; i--) {
+                let cause = inProgress[i];
+                if (cause.handleTime < event.time || !startsBefore(cause, event.node))
+                    continue;
+                event.node.cause = cause;
+                cause.effects.push(event.node);
+                break;
+            }
+        }
+    }
+    return graph;
+}
@@ -14,7 +14,7 @@ See the License for the specific language governing permissions and
 limitations under the License.
 *******************************************************************************/
 
-import { InstanceDecl, MessageOccurrance, Note, TraceParser, TraceParserUtils, type Token } from "./trace-parser.js";
+import { AttributeData, InstanceDecl, MessageOccurrance, Note, TimestampNormalizer, TraceDocument, TraceParserUtils, type Token } from "./trace-parser.js";
 
 export interface GTEFDurationEvent {
     name: string;
@@ -33,8 +33,20 @@ export interface GTEFInstantEvent {
     s: 'g';
 }
 
+export interface GTEFAsyncEvent {
+    name: string;
+    cat: string;
+    ph: 'b' | 'e';
+    ts: number;
+    pid: string;
+    tid: string;
+    id: string;
+}
+
+export type GTEFEvent = GTEFDurationEvent | GTEFInstantEvent | GTEFAsyncEvent;
+
 export interface GTEFOutput {
-    traceEvents: Array<GTEFDurationEvent | GTEFInstantEvent>;
+    traceEvents: GTEFEvent[];
     displayTimeUnit: 'ns';
     otherData: {
         version: '1.0';
@@ -46,6 +58,14 @@ export interface GTEFTranslationWarning {
     receiverAddress?: string;
 }
 
+export interface GTEFTranslationOptions {
+    /**
+     * Emit async events for the time messages were queued, i.e. from time1_send until time2_receive (default true).
+     * Only messages that have the time1_send timestamp get such events.
+     */
+    queuedIntervals?: boolean;
+}
+
 export interface GTEFTranslationResult {
     output: GTEFOutput;
     warnings: GTEFTranslationWarning[];
@@ -79,6 +99,10 @@ function nsToMicroseconds(timestamp: number): number {
     return timestamp / 1e3;
 }
 
+function toMicroseconds(timestamps: TimestampNormalizer, rawTimestamp: number): number {
+    return nsToMicroseconds(timestamps.toNanoseconds(rawTimestamp));
+}
+
 function tokenText(token: Token): string {
     if (token.value !== undefined && typeof token.value === 'string') {
         return token.value;
@@ -110,26 +134,14 @@ function inferApplicationNameFromInstance(astNode: InstanceDecl): string | undef
 }
 
 function parseTimedEvents(
-    parser: TraceParser,
-    traceText: string,
-    instanceToThread: Map<string, string>
+    document: TraceDocument
 ): { timedEvents: TimedEvent[]; untimedEvents: UntimedEvent[]; applicationName: string } {
     const timedMessages: MessageOccurrance[] = [];
     const timedNotes: Note[] = [];
     const untimedEvents: UntimedEvent[] = [];
-    let applicationName = 'UnknownApplication';
-
-    const lines = traceText.split(/\r?\n/);
-    for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
-        const astNode = parser.parseLine(lines[lineNumber], lineNumber + 1);
-        if (astNode === null) {
-            continue;
-        }
-
-        if (parser.traceConfiguration?.trace?.application) {
-            applicationName = parser.traceConfiguration.trace.application;
-        }
+    let applicationName = document.traceConfiguration?.trace?.application || 'UnknownApplication';
 
+    for (const astNode of document.nodes) {
         if (astNode instanceof MessageOccurrance) {
             const messageData = astNode.data;
             if (messageData && typeof messageData.time2_receive === 'number' && typeof messageData.time3_handle === 'number') {
@@ -156,16 +168,9 @@ function parseTimedEvents(
 
         if (astNode instanceof InstanceDecl) {
             const inferredApplicationName = inferApplicationNameFromInstance(astNode);
-            if (inferredApplicationName && !parser.traceConfiguration?.trace?.application) {
+            if (inferredApplicationName && !document.traceConfiguration?.trace?.application) {
                 applicationName = inferredApplicationName;
             }
-
-            const address = tokenText(astNode.address);
-            if (!address) {
-                continue;
-            }
-            const threadName = astNode.data?.thread_name || 'UnknownThread';
-            instanceToThread.set(address, threadName);
         }
     }
 
@@ -185,27 +190,44 @@ function parseTimedEvents(
 }
 
 /**
- * Translate .art-trace text to Google Trace Event Format.
+ * Return the pid for an instance or note. Instances and notes with an "application" attribute
+ * (e.g. in a trace created by mergeTraces()) get one pid per application.
+ */
+function pidOf(data: AttributeData | undefined, defaultPid: string): string {
+    const application = data?.getAttribute('application');
+    return typeof application === 'string' && application ? application : defaultPid;
+}
+
+/**
+ * Translate .art-trace text, or an already parsed trace, to Google Trace Event Format.
  *
  * Output format reference:
  * https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU
  */
-export function toGoogleTraceEventFormat(traceText: string): GTEFTranslationResult {
-    const parser = new TraceParser();
-    const instanceToThread = new Map<string, string>();
+export function toGoogleTraceEventFormat(trace: string | TraceDocument, options: GTEFTranslationOptions = {}): GTEFTranslationResult {
+    let document: TraceDocument;
+    if (typeof trace === 'string') {
+        document = new TraceDocument();
+        document.addText(trace);
+    }
+    else {
+        document = trace;
+    }
     const warnings: GTEFTranslationWarning[] = [];
-    const traceEvents: Array<GTEFDurationEvent | GTEFInstantEvent> = [];
-    const callstacks = new Map<string, MessageOccurrance[]>();
+    const traceEvents: GTEFEvent[] = [];
+    const includeQueuedIntervals = options.queuedIntervals ?? true;
+    let queuedIntervalCount = 0;
+    const callstacks = new Map<string, { pid: string; tid: string; unfinishedEvents: MessageOccurrance[] }>();
 
-    const parsedTrace = parseTimedEvents(parser, traceText, instanceToThread);
+    const parsedTrace = parseTimedEvents(document);
 
     for (const event of parsedTrace.timedEvents) {
         if ('note' in event) {
             traceEvents.push({
                 name: event.note.text,
                 ph: 'i',
-                ts: nsToMicroseconds(event.timestamp),
-                pid: parsedTrace.applicationName,
+                ts: toMicroseconds(document.timestamps, event.timestamp),
+                pid: pidOf(event.note.data, parsedTrace.applicationName),
                 s: 'g'
             });
             continue;
@@ -213,7 +235,8 @@ export function toGoogleTraceEventFormat(traceText: string): GTEFTranslationResu
 
         const msg = event.message;
         const receiverAddress = tokenText(msg.receiver);
-        const receiverThread = instanceToThread.get(receiverAddress);
+        const receiverInstance = document.registry.getReceiver(msg);
+        const receiverThread = receiverInstance ? receiverInstance.data?.thread_name || 'UnknownThread' : undefined;
         if (!receiverThread) {
             warnings.push({
                 message: `No thread found for receiver instance ${receiverAddress}`,
@@ -222,11 +245,12 @@ export function toGoogleTraceEventFormat(traceText: string): GTEFTranslationResu
             continue;
         }
 
-        let unfinishedEvents = callstacks.get(receiverThread);
-        if (!unfinishedEvents) {
-            unfinishedEvents = [];
-            callstacks.set(receiverThread, unfinishedEvents);
+        const pid = pidOf(receiverInstance.data, parsedTrace.applicationName);
+        const callstackKey = `${pid}\u0000${receiverThread}`;
+        if (!callstacks.has(callstackKey)) {
+            callstacks.set(callstackKey, { pid, tid: receiverThread, unfinishedEvents: [] });
         }
+        const unfinishedEvents = callstacks.get(callstackKey).unfinishedEvents;
 
         while (unfinishedEvents.length > 0) {
             const latestUnfinished = unfinishedEvents[unfinishedEvents.length - 1];
@@ -239,8 +263,8 @@ export function toGoogleTraceEventFormat(traceText: string): GTEFTranslationResu
                     name: gtefMessageName(finishedEvent),
                     cat: 'art-trace',
                     ph: 'E',
-                    ts: nsToMicroseconds(finishedEvent.data.time3_handle as number),
-                    pid: parsedTrace.applicationName,
+                    ts: toMicroseconds(document.timestamps, finishedEvent.data.time3_handle as number),
+                    pid,
                     tid: receiverThread
                 });
             }
@@ -249,12 +273,27 @@ export function toGoogleTraceEventFormat(traceText: string): GTEFTranslationResu
             }
         }
 
+        if (includeQueuedIntervals && typeof msg.data.time1_send === 'number') {
+            const id = `queued-${queuedIntervalCount++}`;
+            for (const [ph, timestamp] of [['b', msg.data.time1_send], ['e', event.timestamp]] as const) {
+                traceEvents.push({
+                    name: `${gtefMessageName(msg)} (queued)`,
+                    cat: 'art-trace-queue',
+                    ph,
+                    ts: toMicroseconds(document.timestamps, timestamp),
+                    pid,
+                    tid: receiverThread,
+                    id
+                });
+            }
+        }
+
         traceEvents.push({
             name: gtefMessageName(msg),
             cat: 'art-trace',
             ph: 'B',
-            ts: nsToMicroseconds(event.timestamp),
-            pid: parsedTrace.applicationName,
+            ts: toMicroseconds(document.timestamps, event.timestamp),
+            pid,
             tid: receiverThread
         });
 
@@ -262,7 +301,7 @@ export function toGoogleTraceEventFormat(traceText: string): GTEFTranslationResu
         unfinishedEvents.sort((a, b) => (a.data.time3_handle as number) - (b.data.time3_handle as number));
     }
 
-    callstacks.forEach((unfinishedEvents, threadName) => {
+    callstacks.forEach(({ pid, tid, unfinishedEvents }) => {
         while (unfinishedEvents.length > 0) {
             const finishedEvent = unfinishedEvents.pop();
             if (!finishedEvent) {
@@ -272,9 +311,9 @@ export function toGoogleTraceEventFormat(traceText: string): GTEFTranslationResu
                 name: gtefMessageName(finishedEvent),
                 cat: 'art-trace',
                 ph: 'E',
-                ts: nsToMicroseconds(finishedEvent.data.time3_handle as number),
-                pid: parsedTrace.applicationName,
-                tid: threadName
+                ts: toMicroseconds(document.timestamps, finishedEvent.data.time3_handle as number),
+                pid,
+                tid
             });
         }
     });
@@ -320,7 +359,7 @@ export function toGoogleTraceEventFormat(traceText: string): GTEFTranslationResu
                     name: untimedEvent.note.text || 'note',
                     ph: 'i',
                     ts: syntheticTimestamp++,
-                    pid: parsedTrace.applicationName,
+                    pid: pidOf(untimedEvent.note.data, parsedTrace.applicationName),
                     s: 'g'
                 });
                 continue;
@@ -331,7 +370,7 @@ export function toGoogleTraceEventFormat(traceText: string): GTEFTranslationResu
                 name: eventName,
                 ph: 'i',
                 ts: syntheticTimestamp++,
-                pid: parsedTrace.applicationName,
+                pid: pidOf(document.getInstance(untimedEvent.message.receiver)?.data, parsedTrace.applicationName),
                 s: 'g'
             });
         }
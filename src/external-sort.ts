@@ -0,0 +1,212 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import { compareTraceSortGroups, SortCriteria, TraceParser, TraceSortGrouper, UntimedMessagePolicy, type TraceSortGroup } from "./trace-parser.js";
+
+/**
+ * Options for sorting a trace file with an external merge sort
+ */
+export interface ExternalSortOptions {
+    criteria? : SortCriteria[]; // Sort criteria in priority order (default is receive time, handle time, send time)
+    untimedMessages? : UntimedMessagePolicy; // Default is UntimedMessagePolicy.KEEP_POSITION
+    runSize? : number; // Maximum number of messages to sort in memory at a time (default 100000)
+    tempDir? : string; // Directory where a temporary directory for sorted runs is created (default is the OS temp directory)
+    traceParser? : TraceParser; // Parser to use for parsing lines
+}
+
+/**
+ * Sort a trace file without holding the whole trace in memory. The trace is read in runs that are sorted
+ * in memory and written to temporary files, which are then merged. The result is the same as when using
+ * the TraceSorter.
+ * @param inFilePath the trace file to sort
+ * @param options sort options
+ * @returns the lines of the sorted trace
+ */
+export async function* sortTraceFile(inFilePath : string, options : ExternalSortOptions = {}) : AsyncGenerator<string> {
+    let criteria = options.criteria ?? [SortCriteria.RECEIVE_TIME, SortCriteria.HANDLE_TIME, SortCriteria.SEND_TIME];
+    let grouper = new TraceSortGrouper<string>(criteria, options.untimedMessages ?? UntimedMessagePolicy.KEEP_POSITION);
+    let traceParser = options.traceParser ?? new TraceParser();
+    let runSize = options.runSize ?? 100000;
+
+    let tempDir : string | undefined = undefined;
+    let runFiles : string[] = [];
+    let run : TraceSortGroup<string>[] = [];
+    try {
+        let input = fs.createReadStream(inFilePath, { encoding: 'utf8' });
+        let rl = readline.createInterface({ input, crlfDelay: Infinity });
+        let lineNumber = 0;
+        try {
+            for await (const line of rl) {
+                let group = grouper.add(line, traceParser.parseLine(line, ++lineNumber));
+                if (!group)
+                    continue;
+                run.push(group);
+                if (run.length >= runSize) {
+                    tempDir ??= fs.mkdtempSync(path.join(options.tempDir ?? os.tmpdir(), 'art-trace-sort-'));
+                    runFiles.push(await writeRun(run, path.join(tempDir, `run${runFiles.length}.jsonl`)));
+                    run = [];
+                }
+            }
+        }
+        finally {
+            rl.close();
+            input.close();
+        }
+
+        yield* grouper.header;
+        if (runFiles.length == 0) {
+            run.sort(compareTraceSortGroups);
+            for (let group of run) {
+                yield* group.items;
+            }
+        }
+        else {
+            if (run.length > 0)
+                runFiles.push(await writeRun(run, path.join(tempDir, `run${runFiles.length}.jsonl`)));
+            run = [];
+            yield* mergeRuns(runFiles);
+        }
+        yield* grouper.trailing;
+    }
+    finally {
+        if (tempDir)
+            fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Sort a trace file without holding the whole trace in memory (see sortTraceFile()) and write the sorted trace to a file
+ * @param inFilePath the trace file to sort
+ * @param outFilePath the file to write the sorted trace to
+ * @param options sort options
+ */
+export async function sortTraceFileTo(inFilePath : string, outFilePath : string, options : ExternalSortOptions = {}) : Promise<void> {
+    let output = openOutput(outFilePath);
+    try {
+        for await (const line of sortTraceFile(inFilePath, options)) {
+            await write(output, line + '\n');
+        }
+    }
+    finally {
+        await close(output);
+    }
+}
+
+/**
+ * Sort a run of groups and write it to a file with one group per line
+ */
+async function writeRun(run : TraceSortGroup<string>[], filePath : string) : Promise<string> {
+    run.sort(compareTraceSortGroups);
+    let output = openOutput(filePath);
+    try {
+        for (let group of run) {
+            await write(output, JSON.stringify(group) + '\n');
+        }
+    }
+    finally {
+        await close(output);
+    }
+    return filePath;
+}
+
+/**
+ * Merge sorted runs by repeatedly taking the smallest group among the first groups of all runs
+ */
+async function* mergeRuns(runFiles : string[]) : AsyncGenerator<string> {
+    let readers = runFiles.map(filePath => {
+        let input = fs.createReadStream(filePath, { encoding: 'utf8' });
+        // Read errors are reported by the line iterator, but only for the run that is being read at the time
+        input.on('error', () => {});
+        let rl = readline.createInterface({ input, crlfDelay: Infinity });
+        return { input, rl, lines: rl[Symbol.asyncIterator](), current: undefined as TraceSortGroup<string> | undefined };
+    });
+    try {
+        for (let reader of readers) {
+            reader.current = await nextGroup(reader.lines);
+        }
+        for (;;) {
+            let smallest : typeof readers[0] | undefined = undefined;
+            for (let reader of readers) {
+                if (reader.current && (!smallest || compareTraceSortGroups(reader.current, smallest.current) < 0))
+                    smallest = reader;
+            }
+            if (!smallest)
+                break;
+            yield* smallest.current.items;
+            smallest.current = await nextGroup(smallest.lines);
+        }
+    }
+    finally {
+        for (let reader of readers) {
+            reader.rl.close();
+            reader.input.close();
+        }
+    }
+}
+
+async function nextGroup(lines : AsyncIterator<string>) : Promise<TraceSortGroup<string> | undefined> {
+    let next = await lines.next();
+    return next.done ? undefined : JSON.parse(next.value);
+}
+
+/**
+ * A file being written, with the first error that occurred while writing it
+ */
+interface Output {
+    stream : fs.WriteStream;
+    error : Error | undefined;
+}
+
+function openOutput(filePath : string) : Output {
+    let output : Output = { stream: fs.createWriteStream(filePath, { encoding: 'utf8' }), error: undefined };
+    // Keep the error so that the next write() or close() rejects with it (instead of it being an unhandled error event)
+    output.stream.on('error', error => output.error ??= error);
+    return output;
+}
+
+function write(output : Output, text : string) : Promise<void> {
+    if (output.error)
+        return Promise.reject(output.error);
+    if (output.stream.write(text))
+        return Promise.resolve();
+    return new Promise((resolve, reject) => {
+        let onDrain = () => { output.stream.off('error', onError); resolve(); };
+        let onError = (error : Error) => { output.stream.off('drain', onDrain); reject(error); };
+        output.stream.once('drain', onDrain);
+        output.stream.once('error', onError);
+    });
+}
+
+function close(output : Output) : Promise<void> {
+    if (output.error) {
+        output.stream.destroy();
+        return Promise.reject(output.error);
+    }
+    return new Promise((resolve, reject) => {
+        output.stream.once('error', reject);
+        output.stream.end((error? : Error | null) => {
+            output.stream.off('error', reject);
+            if (error)
+                reject(error);
+            else
+                resolve();
+        });
+    });
+}
@@ -0,0 +1,196 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+import { MessageOccurrance, TraceDocument } from "./trace-parser.js";
+
+/**
+ * A bucket of a histogram, covering handling times from 'from' (inclusive) to 'to' (exclusive, except for the last bucket)
+ */
+export interface HistogramBucket {
+    from : number;
+    to : number;
+    count : number;
+}
+
+/**
+ * Statistics for the handling times of a set of messages. All times are in nanoseconds.
+ */
+export interface HandlingTimeStatistics {
+    count : number;
+    min : number;
+    max : number;
+    mean : number;
+    percentiles : {[percentile : string] : number}; // Keyed by percentile (e.g. "95")
+    histogram : HistogramBucket[];
+}
+
+/**
+ * Statistics for the messages that have the same value for a dimension (e.g. the same event)
+ */
+export interface HandlingStatisticsGroup {
+    key : string;
+    statistics : HandlingTimeStatistics;
+}
+
+/**
+ * The ways in which messages are grouped
+ */
+export type HandlingStatisticsDimension = 'event' | 'receiverType' | 'port' | 'thread';
+
+/**
+ * Handling time statistics of a trace. The handling time of a message is the time from when it was received
+ * (time2_receive) until it was handled (time3_handle).
+ */
+export interface HandlingStatisticsReport {
+    overall : HandlingTimeStatistics; // Statistics for all messages with handling time
+    groups : {[dimension in HandlingStatisticsDimension] : HandlingStatisticsGroup[]}; // Groups sorted by descending total handling time
+    untimedCount : number; // Number of messages that lack time2_receive or time3_handle
+}
+
+/**
+ * Options for computing handling time statistics
+ */
+export interface HandlingStatisticsOptions {
+    percentiles? : number[]; // Percentiles to compute (default 50, 90, 95 and 99)
+    histogramBuckets? : number; // Number of buckets in histograms, at least 1 (default 10)
+}
+
+const unknown = '(unknown)';
+
+/**
+ * Compute statistics for the handling time of the messages of a trace, both for all messages and grouped per event,
+ * per receiver dynamic type, per receiver port (as Type.port) and per receiver thread (qualified by the application
+ * in a merged trace, see InstanceData.qualifiedThreadName()).
+ * @param document the trace
+ * @param options which percentiles and how many histogram buckets to compute
+ */
+export function computeHandlingStatistics(document : TraceDocument, options : HandlingStatisticsOptions = {}) : HandlingStatisticsReport {
+    let dimensions : {[dimension in HandlingStatisticsDimension] : (msg : MessageOccurrance) => string | undefined} = {
+        event: msg => msg.event.text,
+        receiverType: msg => document.getInstance(msg.receiver)?.dynamicType?.text ?? unknown,
+        port: msg => msg.receiverPort ? `${document.getInstance(msg.receiver)?.dynamicType?.text ?? unknown}.${msg.receiverPort.text}` : undefined,
+        thread: msg => document.getInstance(msg.receiver)?.data?.qualifiedThreadName() || unknown
+    };
+
+    let all : number[] = [];
+    let grouped = new Map<HandlingStatisticsDimension, Map<string, number[]>>();
+    let untimedCount = 0;
+    for (let msg of document.messages) {
+        if (msg.data.time2_receive === undefined || msg.data.time3_handle === undefined) {
+            untimedCount++;
+            continue;
+        }
+        let handlingTime = document.timestamps.toNanoseconds(msg.data.time3_handle) - document.timestamps.toNanoseconds(msg.data.time2_receive);
+        all.push(handlingTime);
+        for (let dimension of Object.keys(dimensions) as HandlingStatisticsDimension[]) {
+            let key = dimensions[dimension](msg);
+            if (key === undefined)
+                continue;
+            if (!grouped.has(dimension))
+                grouped.set(dimension, new Map());
+            let times = grouped.get(dimension).get(key);
+            if (!times)
+                grouped.get(dimension).set(key, times = []);
+            times.push(handlingTime);
+        }
+    }
+
+    let groupsOf = (dimension : HandlingStatisticsDimension) : HandlingStatisticsGroup[] =>
+        [...(grouped.get(dimension) ?? new Map<string, number[]>()).entries()]
+            .map(([key, times]) => ({ key, statistics: computeStatistics(times, options), total: times.reduce((sum, t) => sum + t, 0) }))
+            .sort((a, b) => b.total - a.total)
+            .map(({ key, statistics }) => ({ key, statistics }));
+
+    return {
+        overall: computeStatistics(all, options),
+        groups: { event: groupsOf('event'), receiverType: groupsOf('receiverType'), port: groupsOf('port'), thread: groupsOf('thread') },
+        untimedCount
+    };
+}
+
+/**
+ * Compute statistics for a set of times (e.g. handling times)
+ * @param times times in nanoseconds
+ * @param options which percentiles and how many histogram buckets to compute
+ */
+export function computeStatistics(times : number[], options : HandlingStatisticsOptions = {}) : HandlingTimeStatistics {
+    let sorted = [...times].sort((a, b) => a - b);
+    let count = sorted.length;
+    let percentiles : {[percentile : string] : number} = {};
+    for (let p of options.percentiles ?? [50, 90, 95, 99]) {
+        // Nearest-rank method
+        percentiles[p.toString()] = count > 0 ? sorted[Math.min(count - 1, Math.max(0, Math.ceil(p / 100 * count) - 1))] : 0;
+    }
+    return {
+        count,
+        min: count > 0 ? sorted[0] : 0,
+        max: count > 0 ? sorted[count - 1] : 0,
+        mean: count > 0 ? sorted.reduce((sum, t) => sum + t, 0) / count : 0,
+        percentiles,
+        histogram: histogram(sorted, options.histogramBuckets ?? 10)
+    };
+}
+
+function histogram(sorted : number[], bucketCount : number) : HistogramBucket[] {
+    if (!Number.isInteger(bucketCount) || bucketCount < 1)
+        throw new RangeError(`Number of histogram buckets must be a positive integer (was ${bucketCount})`);
+    if (sorted.length == 0)
+        return [];
+    let min = sorted[0], max = sorted[sorted.length - 1];
+    if (min == max)
+        return [{ from: min, to: max, count: sorted.length }];
+
+    let width = (max - min) / bucketCount;
+    let buckets : HistogramBucket[] = [];
+    for (let i = 0; i < bucketCount; i++) {
+        buckets.push({ from: min + i * width, to: i == bucketCount - 1 ? max : min + (i + 1) * width, count: 0 });
+    }
+    for (let t of sorted) {
+        buckets[Math.min(bucketCount - 1, Math.floor((t - min) / width))].count++;
+    }
+    return buckets;
+}
+
+/**
+ * Export handling time statistics as JSON
+ */
+export function handlingStatisticsToJSON(report : HandlingStatisticsReport) : string {
+    return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Export handling time statistics as CSV, with one row for all messages followed by one row per group.
+ * Histograms are not included (use JSON for them).
+ */
+export function handlingStatisticsToCSV(report : HandlingStatisticsReport) : string {
+    let percentiles = Object.keys(report.overall.percentiles);
+    let header = ['dimension', 'key', 'count', 'min', 'max', 'mean', ...percentiles.map(p => `p${p}`)];
+    let row = (dimension : string, key : string, stats : HandlingTimeStatistics) =>
+        [dimension, key, stats.count, stats.min, stats.max, stats.mean, ...percentiles.map(p => stats.percentiles[p])].map(csvValue).join(',');
+
+    let rows = [header.join(','), row('all', '', report.overall)];
+    for (let dimension of Object.keys(report.groups) as HandlingStatisticsDimension[]) {
+        for (let group of report.groups[dimension]) {
+            rows.push(row(dimension, group.key, group.statistics));
+        }
+    }
+    return rows.join('\n') + '\n';
+}
+
+function csvValue(value : string | number) : string {
+    let text = value.toString();
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
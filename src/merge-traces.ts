@@ -0,0 +1,166 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+import { formatStartTime, InstanceDecl, normalizeAddress, SortCriteria, TraceDocument, traceNodeFromJSON, TraceParserUtils, TraceSorter,
+    type TraceConfiguration, type TraceNode, type TraceNodeJSON } from "./trace-parser.js";
+import { TraceWriter } from "./trace-writer.js";
+
+/**
+ * A trace to merge with other traces
+ */
+export interface MergeInput {
+    document : TraceDocument;
+    offset? : number; // Nanoseconds to add to all timestamps of the trace (e.g. to compensate for clocks that are not in sync)
+    application? : string; // Name of the application (default is the application of the trace configuration)
+}
+
+/**
+ * Options for merging traces
+ */
+export interface MergeOptions {
+    // Criteria for sorting the merged trace. By default it's sorted on handle time, then receive time and then send time.
+    // Pass an empty array to keep the traces after each other.
+    sortCriteria? : SortCriteria[];
+}
+
+/**
+ * Merge multiple traces into one trace, for example traces written by different executables of a distributed system.
+ *
+ * - Timestamps are aligned by means of the start time of each trace, and the merged trace uses relative timestamps
+ *   with nanosecond precision counted from the earliest start time. Traces without a start time are assumed
+ *   to start at the same time as the merged trace.
+ * - Addresses are made unique per application (see namespaceAddress()), and each instance and note gets an
+ *   "application" attribute with the name of the application it comes from. toGoogleTraceEventFormat() uses
+ *   this attribute for creating one pid per application.
+ *
+ * @param traces the traces to merge (optionally with a time offset and application name for each trace)
+ * @param options merge options
+ * @returns the merged trace
+ */
+export function mergeTraces(traces : (TraceDocument | MergeInput)[], options : MergeOptions = {}) : TraceDocument {
+    let inputs = traces.map(trace => trace instanceof TraceDocument ? { document: trace } : trace);
+
+    let startTime : bigint | undefined = undefined;
+    for (let input of inputs) {
+        let inputStartTime = input.document.timestamps.startTime;
+        if (inputStartTime !== undefined && (startTime === undefined || inputStartTime < startTime))
+            startTime = inputStartTime;
+    }
+
+    let applications = applicationNames(inputs);
+    let writer = new TraceWriter();
+    let lines : string[] = [];
+    inputs.forEach((input, index) => {
+        for (let astNode of input.document.nodes) {
+            let json = mergedNodeJSON(astNode, input, index, applications[index], startTime);
+            lines.push(writer.writeNode(traceNodeFromJSON(json)));
+        }
+    });
+
+    let config : TraceConfiguration = {
+        timestamps: {
+            mode: 'relative',
+            precision: 'nano',
+            time1_send: inputs.some(input => input.document.traceConfiguration?.timestamps.time1_send),
+            time2_receive: inputs.some(input => input.document.traceConfiguration?.timestamps.time2_receive),
+            time3_handle: inputs.some(input => input.document.traceConfiguration?.timestamps.time3_handle)
+        },
+        trace: {
+            start_time: startTime !== undefined ? formatStartTime(startTime) : undefined,
+            application: applications.join(', ')
+        }
+    };
+    lines = [...writer.writeConfiguration(config), ...lines];
+
+    let sortCriteria = options.sortCriteria ?? [SortCriteria.HANDLE_TIME, SortCriteria.RECEIVE_TIME, SortCriteria.SEND_TIME];
+    if (sortCriteria.length > 0) {
+        let sorter = new TraceSorter(sortCriteria);
+        lines.forEach((line, i) => sorter.parseLineForSorting(line, i + 1));
+        lines = sorter.getSortedMessages().map(lineAndNode => lineAndNode.line);
+    }
+
+    let merged = new TraceDocument();
+    for (let line of lines) {
+        merged.addLine(line);
+    }
+    return merged;
+}
+
+/**
+ * Make an address unique for an application by prefixing it with the index of the application
+ * (e.g. 0x22cc6833390 in the second application becomes 0x200000022cc6833390)
+ * @param address an address
+ * @param applicationIndex index of the application (starting from 0)
+ */
+export function namespaceAddress(address : string, applicationIndex : number) : string {
+    let digits = normalizeAddress(address).substring(2);
+    return `0x${(applicationIndex + 1).toString(16)}${digits.padStart(16, '0')}`;
+}
+
+/**
+ * Return unique names for the applications of the traces to merge
+ */
+function applicationNames(inputs : MergeInput[]) : string[] {
+    let names : string[] = [];
+    inputs.forEach((input, index) => {
+        let topCapsule = input.document.nodes.find((node) : node is InstanceDecl => node instanceof InstanceDecl && TraceParserUtils.isTopCapsuleInstance(node));
+        let name = input.application ?? input.document.traceConfiguration?.trace.application ?? topCapsule?.dynamicType?.text ?? `application${index + 1}`;
+        names.push(names.includes(name) ? `${name} (${index + 1})` : name);
+    });
+    return names;
+}
+
+/**
+ * Return the plain-data representation of an AST node as it should appear in the merged trace
+ */
+function mergedNodeJSON(astNode : TraceNode, input : MergeInput, index : number, application : string, startTime : bigint | undefined) : TraceNodeJSON {
+    let timestamps = input.document.timestamps;
+    let toMergedTime = (raw : number | undefined) : number | undefined => {
+        if (raw === undefined)
+            return undefined;
+        let epochNs = timestamps.toEpochNanoseconds(raw);
+        let ns = epochNs !== undefined && startTime !== undefined ? Number(epochNs - startTime) : timestamps.toNanoseconds(raw);
+        return ns + (input.offset ?? 0);
+    };
+
+    let json = astNode.toJSON();
+    delete json.range;
+    delete json.ranges;
+    switch (json.kind) {
+        case 'instance':
+            json.address = namespaceAddress(json.address, index);
+            json.data = json.data ?? { thread_name: '', attributes: {} };
+            json.data.attributes = { ...json.data.attributes, application };
+            break;
+        case 'message':
+            json.sender = namespaceAddress(json.sender, index);
+            json.receiver = namespaceAddress(json.receiver, index);
+            if (json.data.invoke !== undefined)
+                json.data.invoke = namespaceAddress(json.data.invoke, index);
+            if (json.data.reply !== undefined)
+                json.data.reply = namespaceAddress(json.data.reply, index);
+            json.data.time1_send = toMergedTime(json.data.time1_send);
+            json.data.time2_receive = toMergedTime(json.data.time2_receive);
+            json.data.time3_handle = toMergedTime(json.data.time3_handle);
+            break;
+        case 'note':
+            json.data = json.data ?? { time: undefined, attributes: {} };
+            json.data.time = toMergedTime(json.data.time);
+            json.data.attributes = { ...json.data.attributes, application };
+            break;
+    }
+    return json;
+}
@@ -0,0 +1,291 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+/**
+ * A decoded value of message parameter data. Parameter data uses the ASCII encoding of the TargetRTS,
+ * where a value is preceded by its type name, for example:
+ *   int 42
+ *   bool true
+ *   RTString "hello"
+ *   Hint{current 75,isLess true,max 75,min 50}
+ *   int[3]{1,2,3}
+ *   Color Red
+ * The type name of a pointer or a reference includes the * or &, which may be written with or without spaces
+ * around it, for example:
+ *   void *0x1234
+ *   const char * "text"
+ *   int & 5
+ */
+export type ParamValue = ParamNumber | ParamBoolean | ParamText | ParamStruct | ParamArray | ParamRaw;
+
+interface ParamValueBase {
+    type? : string; // Type name (if present in the encoding)
+}
+
+export interface ParamNumber extends ParamValueBase {
+    kind : 'integer' | 'float';
+    value : number;
+}
+
+export interface ParamBoolean extends ParamValueBase {
+    kind : 'boolean';
+    value : boolean;
+}
+
+export interface ParamText extends ParamValueBase {
+    kind : 'string' | 'char' | 'address' | 'enum';
+    value : string; // For strings and chars the value without quotes and with escape sequences resolved
+}
+
+export interface ParamStruct extends ParamValueBase {
+    kind : 'struct';
+    fields : {name : string, value : ParamValue}[];
+}
+
+export interface ParamArray extends ParamValueBase {
+    kind : 'array';
+    elements : ParamValue[];
+}
+
+/**
+ * Parameter data that could not be decoded
+ */
+export interface ParamRaw extends ParamValueBase {
+    kind : 'raw';
+    value : string;
+}
+
+/**
+ * Decode message parameter data.
+ * @param paramData the parameter data of a message (see MessageData.paramData)
+ * @returns the decoded value, undefined if there is no parameter data, or a raw value if decoding failed
+ */
+export function decodeParamData(paramData : string) : ParamValue | undefined {
+    if (paramData.trim().length == 0)
+        return undefined;
+
+    let decoder = new ParamDataDecoder(paramData);
+    try {
+        let value = decoder.topLevelValue();
+        decoder.skipWhitespace();
+        if (!decoder.atEnd())
+            throw new Error('Unexpected text after value');
+        return value;
+    }
+    catch (e) {
+        return { kind: 'raw', value: paramData };
+    }
+}
+
+/**
+ * Recursive descent decoder for the ASCII encoding of the TargetRTS. Throws an error if the text cannot be decoded.
+ */
+class ParamDataDecoder {
+    private text : string;
+    private pos : number = 0;
+
+    constructor(text : string) {
+        this.text = text;
+    }
+
+    atEnd() : boolean {
+        return this.pos >= this.text.length;
+    }
+
+    skipWhitespace() : void {
+        while (!this.atEnd() && /\s/.test(this.text[this.pos]))
+            this.pos++;
+    }
+
+    /**
+     * A value at the top level is preceded by a type name consisting of one or many words (e.g. "unsigned int 5"),
+     * where * and & also count as words (e.g. "const char * "text"").
+     * If only words are present, the last word is the value (an enum literal or a boolean).
+     */
+    topLevelValue() : ParamValue {
+        let words : string[] = [];
+        for (;;) {
+            this.skipWhitespace();
+            let word = this.match(typeWord) ?? this.match(/[*&]+/y);
+            if (word === undefined)
+                break;
+            words.push(word);
+            if (this.text[this.pos] == '{')
+                break; // Type name of a struct or an array
+        }
+
+        this.skipWhitespace();
+        if (this.atEnd()) {
+            if (words.length == 0)
+                throw new Error('Missing value');
+            let literal = words.pop();
+            if (/^[*&]/.test(literal))
+                throw new Error('Missing value');
+            return withType(identifierValue(literal), words.join(' '));
+        }
+
+        return withType(this.value(), words.join(' '));
+    }
+
+    /**
+     * A value, optionally preceded by a type name (e.g. within a struct or an array)
+     */
+    value() : ParamValue {
+        this.skipWhitespace();
+        let c = this.text[this.pos];
+        if (c == '{')
+            return this.aggregate();
+        if (c == '[')
+            return this.array(']');
+        if (c == '"')
+            return { kind: 'string', value: this.quoted('"') };
+        if (c == "'")
+            return { kind: 'char', value: this.quoted("'") };
+
+        let address = this.match(/0[xX][0-9a-fA-F]+/y);
+        if (address !== undefined)
+            return { kind: 'address', value: address };
+
+        let number = this.match(/[-+]?(?:\d+\.?\d*(?:[eE][-+]?\d+)?|\.\d+(?:[eE][-+]?\d+)?)[uUlLfF]*/y);
+        if (number !== undefined) {
+            let digits = number.replace(/[uUlLfF]+$/, '');
+            let isFloat = /[.eE]/.test(digits) || /[fF]$/.test(number);
+            return { kind: isFloat ? 'float' : 'integer', value: isFloat ? parseFloat(digits) : parseInt(digits) };
+        }
+
+        let identifier = this.match(typeWord);
+        if (identifier === undefined)
+            throw new Error(`Unexpected character '${c}'`);
+
+        // An identifier is either a type name followed by a value, or a value on its own
+        let afterIdentifier = this.pos;
+        this.skipWhitespace();
+        let next = this.text[this.pos];
+        if (next === undefined || next == ',' || next == '}' || next == ']') {
+            this.pos = afterIdentifier;
+            return identifierValue(identifier);
+        }
+        let type = identifier;
+        for (let pointer = this.match(/[*&]+/y); pointer !== undefined; pointer = this.match(/[*&]+/y)) {
+            type += ` ${pointer}`;
+            this.skipWhitespace();
+        }
+        return withType(this.value(), type);
+    }
+
+    /**
+     * A struct ({field value,...}) or an array ({value,...}) enclosed in curly braces
+     */
+    private aggregate() : ParamValue {
+        let start = this.pos;
+        this.pos++; // {
+        this.skipWhitespace();
+        let isStruct = this.match(/[A-Za-z_][A-Za-z0-9_]*\s+(?=[^\s,}])/y) !== undefined;
+        this.pos = start;
+        if (!isStruct)
+            return this.array('}');
+
+        this.pos++; // {
+        let fields : {name : string, value : ParamValue}[] = [];
+        for (;;) {
+            this.skipWhitespace();
+            if (this.text[this.pos] == '}' && fields.length == 0)
+                break;
+            let name = this.match(/[A-Za-z_][A-Za-z0-9_]*/y);
+            if (name === undefined)
+                throw new Error('Missing field name');
+            fields.push({ name, value: this.value() });
+            if (!this.separator('}'))
+                break;
+        }
+        this.pos++; // }
+        return { kind: 'struct', fields };
+    }
+
+    private array(close : string) : ParamValue {
+        this.pos++; // { or [
+        let elements : ParamValue[] = [];
+        this.skipWhitespace();
+        if (this.text[this.pos] != close) {
+            do {
+                elements.push(this.value());
+            } while (this.separator(close));
+        }
+        this.pos++; // } or ]
+        return { kind: 'array', elements };
+    }
+
+    /**
+     * Consume a comma and return true, or return false if the closing character follows
+     */
+    private separator(close : string) : boolean {
+        this.skipWhitespace();
+        let c = this.text[this.pos];
+        if (c == ',') {
+            this.pos++;
+            return true;
+        }
+        if (c == close)
+            return false;
+        throw new Error(`Expected ',' or '${close}'`);
+    }
+
+    private quoted(quote : string) : string {
+        let result = '';
+        for (this.pos++; !this.atEnd(); this.pos++) {
+            let c = this.text[this.pos];
+            if (c == quote) {
+                this.pos++;
+                return result;
+            }
+            if (c == '\\' && this.pos + 1 < this.text.length) {
+                c = this.text[++this.pos];
+                result += escapes[c] ?? c;
+            }
+            else {
+                result += c;
+            }
+        }
+        throw new Error('Missing closing quote');
+    }
+
+    private match(regexp : RegExp) : string | undefined {
+        regexp.lastIndex = this.pos;
+        let match = regexp.exec(this.text);
+        if (!match)
+            return undefined;
+        this.pos += match[0].length;
+        return match[0];
+    }
+}
+
+// A word of a type name or an identifier value. A * or & only belongs to the word within template arguments
+// (e.g. "RTTypedValue<char*>"), otherwise it is a word of its own.
+const typeWord = /[A-Za-z_](?:[A-Za-z0-9_:<>]|[*&]+(?=[>,]))*(?:\[\d*\])*/y;
+
+const escapes : {[c : string] : string} = { n: '\n', t: '\t', r: '\r', '0': '\0' };
+
+function identifierValue(identifier : string) : ParamValue {
+    if (identifier == 'true' || identifier == 'false')
+        return { kind: 'boolean', value: identifier == 'true' };
+    return { kind: 'enum', value: identifier };
+}
+
+function withType(value : ParamValue, type : string) : ParamValue {
+    if (type.length == 0)
+        return value;
+    return { ...value, type: value.type !== undefined ? `${type} ${value.type}` : type };
+}
@@ -0,0 +1,175 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+import { InstanceDecl, TraceDocument, type Token } from "./trace-parser.js";
+
+/**
+ * Direction of an event relative to a port: 'in' for events received on the port and 'out' for events sent on it
+ */
+export type PortDirection = 'in' | 'out';
+
+/**
+ * An event in a certain direction on a port
+ */
+export interface PortEvent {
+    direction : PortDirection;
+    event : string;
+}
+
+/**
+ * An event with the number of times it was observed
+ */
+export interface PortEventCount extends PortEvent {
+    count : number;
+}
+
+/**
+ * A transition of a protocol automaton. The states of the automaton are the events last observed on a port,
+ * so a transition tells which event was observed after another one.
+ */
+export interface ProtocolTransition {
+    from : PortEvent | null; // null for the initial state (no event observed yet on the port)
+    to : PortEvent;
+    count : number;
+}
+
+/**
+ * A protocol inferred from the events observed on the ports with the same name of the instances with the same dynamic type
+ */
+export interface InferredPortProtocol {
+    dynamicType : string;
+    port : string;
+    inEvents : PortEventCount[]; // Sorted by event name
+    outEvents : PortEventCount[]; // Sorted by event name
+    transitions : ProtocolTransition[];
+    indices : number[]; // Port indices that were used (empty if the port is not replicated)
+    portInstanceCount : number; // Number of distinct port instances (instance and port index) that were used
+}
+
+/**
+ * A protocol definition to compare an inferred protocol with
+ */
+export interface ExpectedPortProtocol {
+    inEvents : string[];
+    outEvents : string[];
+}
+
+/**
+ * The differences between an inferred protocol and its definition
+ */
+export interface ProtocolComparison {
+    unexercised : PortEvent[]; // Events of the definition that were never observed
+    unexpected : PortEvent[]; // Observed events that are not in the definition
+}
+
+/**
+ * Infer a protocol for each port of each capsule dynamic type from the messages of a trace. A message is an 'out'
+ * event on the sender port of the sender instance, and an 'in' event on the receiver port of the receiver instance.
+ * Instances without a dynamic type (i.e. built-in TargetRTS instances) and messages without a port are ignored.
+ * @param document the trace
+ * @returns protocols sorted by dynamic type and port name
+ */
+export function inferPortProtocols(document : TraceDocument) : InferredPortProtocol[] {
+    let builders = new Map<string, ProtocolBuilder>();
+    let observe = (address : Token, portToken : Token | undefined, portIndex : number | undefined, direction : PortDirection, event : string) => {
+        let instance = document.getInstance(address);
+        if (!instance?.dynamicType || !portToken)
+            return;
+        let key = `${instance.dynamicType.text}.${portToken.text}`;
+        let builder = builders.get(key);
+        if (!builder)
+            builders.set(key, builder = new ProtocolBuilder(instance.dynamicType.text, portToken.text));
+        builder.observe(instance, portIndex, { direction, event });
+    };
+
+    for (let msg of document.messages) {
+        observe(msg.sender, msg.senderPort, msg.senderPortIndex, 'out', msg.event.text);
+        observe(msg.receiver, msg.receiverPort, msg.receiverPortIndex, 'in', msg.event.text);
+    }
+
+    return [...builders.values()]
+        .sort((a, b) => a.dynamicType.localeCompare(b.dynamicType) || a.port.localeCompare(b.port))
+        .map(builder => builder.build());
+}
+
+/**
+ * Compare an inferred protocol with its definition, to find events that were never exercised and events
+ * that are not part of the protocol
+ */
+export function compareWithProtocol(inferred : InferredPortProtocol, expected : ExpectedPortProtocol) : ProtocolComparison {
+    let unexercised : PortEvent[] = [];
+    let unexpected : PortEvent[] = [];
+    for (let [direction, observed, defined] of [['in', inferred.inEvents, expected.inEvents], ['out', inferred.outEvents, expected.outEvents]] as const) {
+        let observedEvents = new Set(observed.map(e => e.event));
+        let definedEvents = new Set(defined);
+        unexercised.push(...[...definedEvents].filter(event => !observedEvents.has(event)).map(event => ({ direction, event })));
+        unexpected.push(...[...observedEvents].filter(event => !definedEvents.has(event)).map(event => ({ direction, event })));
+    }
+    return { unexercised, unexpected };
+}
+
+class ProtocolBuilder {
+    readonly dynamicType : string;
+    readonly port : string;
+    private readonly counts = new Map<string, PortEventCount>(); // Keyed by eventKey()
+    private readonly transitions = new Map<string, ProtocolTransition>(); // Keyed by the keys of the from and to events
+    private readonly lastEvents = new Map<InstanceDecl, Map<number | undefined, PortEvent>>(); // Last observed event per port instance
+    private readonly indices = new Set<number>();
+
+    constructor(dynamicType : string, port : string) {
+        this.dynamicType = dynamicType;
+        this.port = port;
+    }
+
+    public observe(instance : InstanceDecl, portIndex : number | undefined, portEvent : PortEvent) : void {
+        let key = eventKey(portEvent);
+        let count = this.counts.get(key);
+        if (!count)
+            this.counts.set(key, count = { ...portEvent, count: 0 });
+        count.count++;
+
+        if (portIndex !== undefined)
+            this.indices.add(portIndex);
+        if (!this.lastEvents.has(instance))
+            this.lastEvents.set(instance, new Map());
+        let portInstance = this.lastEvents.get(instance);
+        let from = portInstance.get(portIndex) ?? null;
+        portInstance.set(portIndex, portEvent);
+
+        let transitionKey = `${from ? eventKey(from) : ''}\u0000${key}`;
+        let transition = this.transitions.get(transitionKey);
+        if (!transition)
+            this.transitions.set(transitionKey, transition = { from, to: portEvent, count: 0 });
+        transition.count++;
+    }
+
+    public build() : InferredPortProtocol {
+        let events = [...this.counts.values()].sort((a, b) => a.event.localeCompare(b.event));
+        return {
+            dynamicType: this.dynamicType,
+            port: this.port,
+            inEvents: events.filter(e => e.direction == 'in'),
+            outEvents: events.filter(e => e.direction == 'out'),
+            transitions: [...this.transitions.values()],
+            indices: [...this.indices].sort((a, b) => a - b),
+            portInstanceCount: [...this.lastEvents.values()].reduce((sum, portInstances) => sum + portInstances.size, 0)
+        };
+    }
+}
+
+function eventKey(portEvent : PortEvent) : string {
+    return `${portEvent.direction} ${portEvent.event}`;
+}
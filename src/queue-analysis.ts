@@ -0,0 +1,169 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+import { MessageOccurrance, TraceDocument } from "./trace-parser.js";
+
+/**
+ * A message that was placed in the message queue of a thread. All times are in nanoseconds.
+ */
+export interface QueuedMessage {
+    message : MessageOccurrance;
+    sendTime : number; // When the message was placed in the queue (time1_send)
+    receiveTime : number; // When the message was taken from the queue and delivered to the receiver (time2_receive)
+    wait : number; // Time the message spent in the queue
+}
+
+/**
+ * The number of messages in a queue from a point in time until the next sample
+ */
+export interface BacklogSample {
+    time : number;
+    depth : number;
+}
+
+/**
+ * An interval during which the queue of a thread contained at least a certain number of messages
+ */
+export interface CongestionInterval {
+    thread : string; // Thread name, qualified by the application in a merged trace (see InstanceData.qualifiedThreadName())
+    start : number;
+    end : number;
+    peakDepth : number; // Maximum number of messages in the queue during the interval
+    messageCount : number; // Number of messages that were in the queue during the interval
+    totalWait : number; // Sum of the time that messages spent in the queue during the interval
+}
+
+/**
+ * The message queue of a thread over time
+ */
+export interface ThreadQueueAnalysis {
+    thread : string; // Thread name, qualified by the application in a merged trace (see InstanceData.qualifiedThreadName())
+    messages : QueuedMessage[]; // In order of send time
+    backlog : BacklogSample[]; // Queue depth as a time series (one sample each time the depth changes)
+    maxDepth : number;
+    meanWait : number;
+    maxWait : number;
+    congestion : CongestionInterval[]; // Congestion intervals, worst (largest total wait) first
+}
+
+/**
+ * The message queues of all threads of a trace
+ */
+export interface QueueAnalysis {
+    threads : ThreadQueueAnalysis[]; // Sorted by thread name
+    worstCongestion : CongestionInterval[]; // The worst congestion intervals of all threads, worst first
+    skippedCount : number; // Number of messages that lack time1_send or time2_receive, or whose receiver thread is unknown
+}
+
+/**
+ * Options for analyzing message queues
+ */
+export interface QueueAnalysisOptions {
+    minDepth? : number; // Minimum number of queued messages for an interval to count as congested (default 2)
+    topCount? : number; // Number of worst congestion intervals to report for the whole trace (default 10)
+}
+
+/**
+ * Reconstruct the message queue of each thread over time. A message is in the queue of the thread that runs its
+ * receiver (see InstanceData.qualifiedThreadName()) from its send time (time1_send) until its receive time
+ * (time2_receive), so the analysis requires a trace with both these timestamps. In a merged trace threads of different
+ * applications are kept apart even if they have the same name.
+ * @param document the trace
+ * @param options how to find congestion intervals
+ */
+export function analyzeQueues(document : TraceDocument, options : QueueAnalysisOptions = {}) : QueueAnalysis {
+    let minDepth = options.minDepth ?? 2;
+    let byThread = new Map<string, QueuedMessage[]>();
+    let skippedCount = 0;
+    for (let msg of document.messages) {
+        let thread = document.getInstance(msg.receiver)?.data?.qualifiedThreadName();
+        if (msg.data.time1_send === undefined || msg.data.time2_receive === undefined || !thread) {
+            skippedCount++;
+            continue;
+        }
+        let sendTime = document.timestamps.toNanoseconds(msg.data.time1_send);
+        let receiveTime = document.timestamps.toNanoseconds(msg.data.time2_receive);
+        if (!byThread.has(thread))
+            byThread.set(thread, []);
+        byThread.get(thread).push({ message: msg, sendTime, receiveTime, wait: receiveTime - sendTime });
+    }
+
+    let threads = [...byThread.keys()].sort().map(thread => analyzeThreadQueue(thread, byThread.get(thread), minDepth));
+    let worstCongestion = threads.flatMap(t => t.congestion).sort(compareCongestion).slice(0, options.topCount ?? 10);
+    return { threads, worstCongestion, skippedCount };
+}
+
+function analyzeThreadQueue(thread : string, messages : QueuedMessage[], minDepth : number) : ThreadQueueAnalysis {
+    messages.sort((a, b) => a.sendTime - b.sendTime);
+
+    // Sweep over the points in time where messages enter (+1) and leave (-1) the queue. Messages that leave
+    // are handled before messages that enter at the same time. Messages that were received as soon as they were
+    // sent never were in the queue, so they are left out (otherwise they could leave before they enter).
+    let events : {time : number, delta : number}[] = [];
+    for (let m of messages) {
+        if (m.receiveTime > m.sendTime)
+            events.push({ time: m.sendTime, delta: 1 }, { time: m.receiveTime, delta: -1 });
+    }
+    events.sort((a, b) => a.time - b.time || a.delta - b.delta);
+
+    let backlog : BacklogSample[] = [];
+    let congestion : CongestionInterval[] = [];
+    let current : CongestionInterval | undefined = undefined;
+    let depth = 0, maxDepth = 0, lastTime = 0;
+    for (let i = 0; i < events.length;) {
+        // Apply all events at the same time before looking at the depth, so that a message that leaves when
+        // another one enters doesn't split a congestion interval in two
+        let time = events[i].time;
+        if (current)
+            current.totalWait += depth * (time - lastTime);
+        for (; i < events.length && events[i].time == time; i++) {
+            depth += events[i].delta;
+            maxDepth = Math.max(maxDepth, depth);
+            if (current && events[i].delta > 0)
+                current.messageCount++;
+        }
+        lastTime = time;
+
+        if (!current && depth >= minDepth) {
+            current = { thread, start: time, end: time, peakDepth: depth, messageCount: depth, totalWait: 0 };
+        }
+        else if (current && depth < minDepth) {
+            current.end = time;
+            congestion.push(current);
+            current = undefined;
+        }
+        if (current)
+            current.peakDepth = Math.max(current.peakDepth, depth);
+
+        if (backlog.length == 0 || backlog[backlog.length - 1].depth != depth)
+            backlog.push({ time, depth });
+    }
+
+    let totalWait = messages.reduce((sum, m) => sum + m.wait, 0);
+    return {
+        thread,
+        messages,
+        backlog,
+        maxDepth,
+        meanWait: messages.length > 0 ? totalWait / messages.length : 0,
+        maxWait: messages.reduce((max, m) => Math.max(max, m.wait), 0),
+        congestion: congestion.sort(compareCongestion)
+    };
+}
+
+function compareCongestion(a : CongestionInterval, b : CongestionInterval) : number {
+    return b.totalWait - a.totalWait || b.peakDepth - a.peakDepth || a.start - b.start;
+}
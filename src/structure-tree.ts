@@ -0,0 +1,208 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+import { InstanceDecl, TraceDocument, TraceParserUtils, type Token } from "./trace-parser.js";
+
+/**
+ * A part of a capsule in the structure tree (e.g. guesser[3]). The root of the tree is the top capsule (application).
+ */
+export class StructureTreeNode {
+    readonly name : string; // Name of the capsule part
+    readonly index : number | undefined; // Index of the capsule part (for replicated parts)
+    readonly parent : StructureTreeNode | undefined;
+    readonly children : StructureTreeNode[] = [];
+    readonly instances : InstanceDecl[] = []; // Instances declared at this part, in declaration order
+
+    constructor(name : string, index : number | undefined, parent : StructureTreeNode | undefined) {
+        this.name = name;
+        this.index = index;
+        this.parent = parent;
+    }
+
+    /**
+     * The latest instance declared at this part (undefined if no instance was declared, e.g. for a
+     * capsule part that only appears as a prefix of other structure expressions)
+     */
+    get instance() : InstanceDecl | undefined {
+        return this.instances[this.instances.length - 1];
+    }
+
+    /**
+     * The dynamic type of the latest instance declared at this part
+     */
+    get dynamicType() : string | undefined {
+        return this.instance?.dynamicType?.text;
+    }
+
+    /**
+     * The path of this part from the root of the tree (e.g. application.guesser[3])
+     */
+    get path() : string {
+        let segment = this.index !== undefined ? `${this.name}[${this.index}]` : this.name;
+        return this.parent ? `${this.parent.path}.${segment}` : segment;
+    }
+
+    /**
+     * Return the child with a certain name and index (if any)
+     */
+    public getChild(name : string, index : number | undefined) : StructureTreeNode | undefined {
+        return this.children.find(child => child.name == name && child.index === index);
+    }
+
+    /**
+     * Return all nodes in the subtree of this node (including this node), in depth-first order
+     */
+    public *subtree() : IterableIterator<StructureTreeNode> {
+        yield this;
+        for (let child of this.children) {
+            yield* child.subtree();
+        }
+    }
+}
+
+/**
+ * A segment of a structure expression or a path (e.g. guesser[3])
+ */
+interface PathSegment {
+    name : string;
+    index : number | undefined;
+}
+
+/**
+ * The capsule part hierarchy of an application, reconstructed from the structure expressions of the
+ * declared instances. Structure expressions are relative to the top capsule, which is the root of the
+ * tree. Built-in TargetRTS instances (such as the system and timer instances) are not part of the tree.
+ */
+export class StructureTree {
+    readonly root : StructureTreeNode = new StructureTreeNode('application', undefined, undefined);
+    readonly builtInInstances : InstanceDecl[] = []; // Instances that are not part of the tree
+    private nodeOfInstance = new Map<InstanceDecl, StructureTreeNode>();
+
+    /**
+     * Construct the StructureTree.
+     * @param instances instance declarations to add to the tree
+     */
+    constructor(instances : Iterable<InstanceDecl> = []) {
+        for (let instance of instances) {
+            this.addInstance(instance);
+        }
+    }
+
+    /**
+     * Build the structure tree for all instances declared in a trace
+     */
+    public static fromDocument(document : TraceDocument) : StructureTree {
+        return new StructureTree(document.nodes.filter((node) : node is InstanceDecl => node instanceof InstanceDecl));
+    }
+
+    /**
+     * Add an instance declaration to the tree. Parts that are missing in the tree are created.
+     * @returns the node of the instance, or undefined for a built-in TargetRTS instance
+     */
+    public addInstance(instance : InstanceDecl) : StructureTreeNode | undefined {
+        if (TraceParserUtils.isSystemInstance(instance) || TraceParserUtils.isTimerInstance(instance) || TraceParserUtils.isExternalInstance(instance)) {
+            this.builtInInstances.push(instance);
+            return undefined;
+        }
+
+        let node = this.root;
+        if (!TraceParserUtils.isTopCapsuleInstance(instance)) {
+            for (let segment of structureExprSegments(instance.structureExpr)) {
+                let child = node.getChild(segment.name, segment.index);
+                if (!child) {
+                    child = new StructureTreeNode(segment.name, segment.index, node);
+                    node.children.push(child);
+                }
+                node = child;
+            }
+        }
+        node.instances.push(instance);
+        this.nodeOfInstance.set(instance, node);
+        return node;
+    }
+
+    /**
+     * Return the node of an instance that was added to the tree
+     */
+    public getNodeOf(instance : InstanceDecl) : StructureTreeNode | undefined {
+        return this.nodeOfInstance.get(instance);
+    }
+
+    /**
+     * Return the node at a path (e.g. application.guesser[3]). The path may be given either from
+     * the root (starting with "application") or relative to the root (e.g. guesser[3]).
+     */
+    public getNode(path : string) : StructureTreeNode | undefined {
+        let node : StructureTreeNode | undefined = this.root;
+        for (let segment of this.pathSegments(path)) {
+            node = node.getChild(segment.name, segment.index);
+            if (!node)
+                return undefined;
+        }
+        return node;
+    }
+
+    /**
+     * Return all nodes that match a path. A path segment without index matches all indices of a
+     * replicated part, so application.guesser matches application.guesser[0], application.guesser[1] etc.
+     */
+    public findNodes(path : string) : StructureTreeNode[] {
+        let nodes = [this.root];
+        for (let segment of this.pathSegments(path)) {
+            nodes = nodes.flatMap(node => node.children.filter(child =>
+                child.name == segment.name && (segment.index === undefined || child.index === segment.index)));
+        }
+        return nodes;
+    }
+
+    /**
+     * Return all instances at or under a path (see findNodes())
+     */
+    public getInstancesUnder(path : string) : InstanceDecl[] {
+        let result : InstanceDecl[] = [];
+        for (let node of this.findNodes(path)) {
+            for (let descendant of node.subtree()) {
+                result.push(...descendant.instances);
+            }
+        }
+        return result;
+    }
+
+    private pathSegments(path : string) : PathSegment[] {
+        let segments = parsePath(path);
+        if (segments.length > 0 && segments[0].name == this.root.name && segments[0].index === undefined)
+            segments.shift();
+        return segments;
+    }
+}
+
+function structureExprSegments(structureExpr : Token[]) : PathSegment[] {
+    let segments : PathSegment[] = [];
+    for (let token of structureExpr) {
+        if (typeof token.value === 'number' && segments.length > 0)
+            segments[segments.length - 1].index = token.value;
+        else
+            segments.push({ name: token.text, index: undefined });
+    }
+    return segments;
+}
+
+function parsePath(path : string) : PathSegment[] {
+    return path.split('.').filter(part => part.length > 0).map(part => {
+        let match = /^(.*)\[(\d+)\]$/.exec(part.trim());
+        return match ? { name: match[1], index: parseInt(match[2]) } : { name: part.trim(), index: undefined };
+    });
+}
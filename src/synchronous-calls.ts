@@ -0,0 +1,154 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+import { InstanceDecl, MessageData, MessageOccurrance, normalizeAddress, TraceDocument } from "./trace-parser.js";
+
+/**
+ * A synchronous call, i.e. an invoke message paired with its reply message
+ */
+export class SynchronousCall {
+    readonly invoke : MessageOccurrance;
+    readonly reply : MessageOccurrance;
+    readonly caller : InstanceDecl | undefined; // Instance that made the invoke
+    readonly callee : InstanceDecl | undefined; // Instance that received the invoke and replied
+    readonly roundTripTime : number | undefined; // Nanoseconds from the invoke until the reply was received (if timestamps are available)
+    nestedIn : SynchronousCall | undefined = undefined; // Call during which the callee made this call
+    readonly nestedCalls : SynchronousCall[] = []; // Calls made by the callee during this call
+
+    constructor(invoke : MessageOccurrance, reply : MessageOccurrance, document : TraceDocument) {
+        this.invoke = invoke;
+        this.reply = reply;
+        this.caller = document.getInstance(invoke.sender);
+        this.callee = document.getInstance(invoke.receiver);
+
+        let start = invoke.data.time1_send ?? invoke.data.time2_receive;
+        let end = reply.data.time2_receive ?? reply.data.time3_handle;
+        if (start !== undefined && end !== undefined)
+            this.roundTripTime = document.timestamps.toNanoseconds(end) - document.timestamps.toNanoseconds(start);
+    }
+
+    get callerPort() : string | undefined {
+        return this.invoke.senderPort?.text;
+    }
+
+    get callerPortIndex() : number | undefined {
+        return this.invoke.senderPortIndex;
+    }
+
+    get calleePort() : string | undefined {
+        return this.invoke.receiverPort?.text;
+    }
+
+    get calleePortIndex() : number | undefined {
+        return this.invoke.receiverPortIndex;
+    }
+
+    get requestData() : MessageData {
+        return this.invoke.data;
+    }
+
+    get replyData() : MessageData {
+        return this.reply.data;
+    }
+}
+
+/**
+ * The result of pairing the invoke and reply messages of a trace
+ */
+export interface SynchronousCallAnalysis {
+    calls : SynchronousCall[]; // All paired calls, in the order of their invoke messages
+    unmatchedInvokes : MessageOccurrance[]; // Invoke messages without a reply
+    orphanReplies : MessageOccurrance[]; // Reply messages without a matching invoke
+    nestedCalls : SynchronousCall[]; // Calls made by a callee while it was handling another call
+}
+
+/**
+ * Pair each invoke message of a trace with its reply. An invoke and a reply match when they have the same
+ * message address (MessageData.invoke and MessageData.reply) and the reply is sent by the receiver of the
+ * invoke back to its sender. Since message addresses are reused, an invoke is paired with the first matching
+ * reply that follows it. Nested calls can only be found if the trace contains time2_receive and time3_handle timestamps.
+ */
+export function analyzeSynchronousCalls(document : TraceDocument) : SynchronousCallAnalysis {
+    let result : SynchronousCallAnalysis = { calls: [], unmatchedInvokes: [], orphanReplies: [], nestedCalls: [] };
+    let pendingInvokes = new Map<string /* message address */, MessageOccurrance>();
+    let calls : {call : SynchronousCall, line : number}[] = [];
+
+    for (let msg of document.messages) {
+        if (msg.data.invoke !== undefined) {
+            let address = normalizeAddress(msg.data.invoke);
+            let previous = pendingInvokes.get(address);
+            if (previous)
+                result.unmatchedInvokes.push(previous); // The message address was reused, so the previous invoke got no reply
+            pendingInvokes.set(address, msg);
+        }
+        else if (msg.data.reply !== undefined) {
+            let address = normalizeAddress(msg.data.reply);
+            let invoke = pendingInvokes.get(address);
+            if (invoke && isReplyTo(msg, invoke)) {
+                pendingInvokes.delete(address);
+                calls.push({ call: new SynchronousCall(invoke, msg, document), line: invoke.range?.startLine ?? 0 });
+            }
+            else {
+                result.orphanReplies.push(msg);
+            }
+        }
+    }
+    result.unmatchedInvokes.push(...pendingInvokes.values());
+    result.unmatchedInvokes.sort((a, b) => (a.range?.startLine ?? 0) - (b.range?.startLine ?? 0));
+    result.calls = calls.sort((a, b) => a.line - b.line).map(c => c.call);
+
+    findNestedCalls(result.calls);
+    result.nestedCalls = result.calls.filter(call => call.nestedIn !== undefined);
+    return result;
+}
+
+function isReplyTo(reply : MessageOccurrance, invoke : MessageOccurrance) : boolean {
+    return normalizeAddress(reply.sender.text) == normalizeAddress(invoke.receiver.text) &&
+        normalizeAddress(reply.receiver.text) == normalizeAddress(invoke.sender.text);
+}
+
+/**
+ * A call is nested in another call if its caller is the callee of the other call, and the invoke was
+ * received while the callee handled the other invoke. The innermost such call is used.
+ */
+function findNestedCalls(calls : SynchronousCall[]) : void {
+    let callsByCallee = new Map<string, SynchronousCall[]>();
+    for (let call of calls) {
+        let callee = normalizeAddress(call.invoke.receiver.text);
+        let calleeCalls = callsByCallee.get(callee);
+        if (!calleeCalls) {
+            calleeCalls = [];
+            callsByCallee.set(callee, calleeCalls);
+        }
+        calleeCalls.push(call);
+    }
+
+    for (let call of calls) {
+        let start = call.invoke.data.time2_receive;
+        if (start === undefined)
+            continue;
+        let candidates = callsByCallee.get(normalizeAddress(call.invoke.sender.text)) ?? [];
+        for (let outer of candidates) {
+            let outerStart = outer.invoke.data.time2_receive, outerEnd = outer.invoke.data.time3_handle;
+            if (outer === call || outerStart === undefined || outerEnd === undefined || start < outerStart || start > outerEnd)
+                continue;
+            let current = call.nestedIn;
+            if (!current || outerStart >= (current.invoke.data.time2_receive as number))
+                call.nestedIn = outer;
+        }
+        call.nestedIn?.nestedCalls.push(call);
+    }
+}
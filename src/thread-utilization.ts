@@ -0,0 +1,173 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+import { TraceDocument } from "./trace-parser.js";
+
+/**
+ * An interval of time in nanoseconds
+ */
+export interface TimeInterval {
+    start : number;
+    end : number;
+}
+
+/**
+ * The utilization of a thread within a window of time
+ */
+export interface UtilizationWindow extends TimeInterval {
+    busyTime : number;
+    utilization : number; // busyTime divided by the length of the window (0..1)
+}
+
+/**
+ * How much a thread was busy handling messages. All times are in nanoseconds.
+ */
+export interface ThreadUtilization {
+    thread : string; // Thread name, qualified by the application in a merged trace (see InstanceData.qualifiedThreadName())
+    messageCount : number; // Number of messages handled by the thread
+    busyTime : number; // Time during which the thread handled at least one message
+    idleTime : number; // Time during which the thread handled no message (within the time span of the trace)
+    utilization : number; // busyTime divided by the time span of the trace (0..1)
+    maxNestingDepth : number; // Maximum number of messages handled at the same time (more than 1 for nested handling, e.g. of synchronous invokes)
+    nestedMessageCount : number; // Number of messages handled while another message was being handled
+    busyIntervals : TimeInterval[]; // Non-overlapping intervals during which the thread was busy, in time order
+    windows : UtilizationWindow[]; // Utilization over sliding windows, which all have the same length
+    peakUtilization : number; // Highest utilization of any window
+    saturated : boolean; // True if the utilization of at least one window reached the saturation threshold
+}
+
+/**
+ * The utilization of all threads of a trace
+ */
+export interface UtilizationReport {
+    start : number; // Start of the time span of the trace (the earliest receive time)
+    end : number; // End of the time span of the trace (the latest handle time)
+    threads : ThreadUtilization[]; // Sorted by thread name
+    saturatedThreads : string[];
+    untimedCount : number; // Number of messages that lack time2_receive or time3_handle, or whose receiver thread is unknown
+}
+
+/**
+ * Options for computing thread utilization
+ */
+export interface UtilizationOptions {
+    windowSize? : number; // Length of the sliding windows in nanoseconds (default one tenth of the time span of the trace, at most the time span)
+    windowStep? : number; // Distance between the starts of consecutive windows in nanoseconds (default the window size)
+    saturationThreshold? : number; // Window utilization at which a thread counts as saturated (default 0.9)
+}
+
+/**
+ * Compute for each thread how much of the time it was busy handling messages. A message is handled by the thread
+ * that runs its receiver (see InstanceData.qualifiedThreadName()) from its receive time (time2_receive) until its
+ * handle time (time3_handle), so the analysis requires a trace with both these timestamps. In a merged trace threads
+ * of different applications are kept apart even if they have the same name.
+ * @param document the trace
+ * @param options sliding windows and saturation threshold
+ */
+export function analyzeThreadUtilization(document : TraceDocument, options : UtilizationOptions = {}) : UtilizationReport {
+    let byThread = new Map<string, TimeInterval[]>();
+    let untimedCount = 0;
+    let start = Infinity, end = -Infinity;
+    for (let msg of document.messages) {
+        let thread = document.getInstance(msg.receiver)?.data?.qualifiedThreadName();
+        if (msg.data.time2_receive === undefined || msg.data.time3_handle === undefined || !thread) {
+            untimedCount++;
+            continue;
+        }
+        let receiveTime = document.timestamps.toNanoseconds(msg.data.time2_receive);
+        let handleTime = Math.max(receiveTime, document.timestamps.toNanoseconds(msg.data.time3_handle));
+        if (!byThread.has(thread))
+            byThread.set(thread, []);
+        byThread.get(thread).push({ start: receiveTime, end: handleTime });
+        start = Math.min(start, receiveTime);
+        end = Math.max(end, handleTime);
+    }
+    if (byThread.size == 0)
+        return { start: 0, end: 0, threads: [], saturatedThreads: [], untimedCount };
+
+    let span = end - start;
+    let windowSize = options.windowSize ?? span / 10;
+    let windowStep = options.windowStep ?? windowSize;
+    let windows : TimeInterval[] = [];
+    if (span > 0 && windowSize > 0 && windowStep > 0) {
+        // All windows have the same length, so the last window ends at the end of the trace (and may overlap the
+        // previous window more than other windows do). A short last window could otherwise appear saturated from
+        // a single handling. Start times are computed from the window index to not accumulate rounding errors.
+        let size = Math.min(windowSize, span);
+        let count = Math.ceil((span - size) / windowStep - 1e-9) + 1;
+        for (let i = 0; i < count; i++) {
+            let windowStart = Math.min(start + i * windowStep, end - size);
+            windows.push({ start: windowStart, end: windowStart + size });
+        }
+    }
+
+    let threads = [...byThread.keys()].sort().map(thread =>
+        threadUtilization(thread, byThread.get(thread), span, windows, options.saturationThreshold ?? 0.9));
+    return { start, end, threads, saturatedThreads: threads.filter(t => t.saturated).map(t => t.thread), untimedCount };
+}
+
+function threadUtilization(thread : string, handlings : TimeInterval[], span : number, windows : TimeInterval[], saturationThreshold : number) : ThreadUtilization {
+    handlings.sort((a, b) => a.start - b.start || b.end - a.end);
+
+    // Merge overlapping (nested) handlings into busy intervals, and count how deeply they are nested. A handling that
+    // ends at the same time as another starts is not nested.
+    let busyIntervals : TimeInterval[] = [];
+    let active : number[] = []; // End times of the handlings that are in progress
+    let maxNestingDepth = 0, nestedMessageCount = 0;
+    for (let handling of handlings) {
+        active = active.filter(activeEnd => activeEnd > handling.start);
+        if (active.length > 0)
+            nestedMessageCount++;
+        active.push(handling.end);
+        maxNestingDepth = Math.max(maxNestingDepth, active.length);
+
+        let last = busyIntervals[busyIntervals.length - 1];
+        if (last && handling.start <= last.end)
+            last.end = Math.max(last.end, handling.end);
+        else
+            busyIntervals.push({ ...handling });
+    }
+    let busyTime = busyIntervals.reduce((sum, i) => sum + (i.end - i.start), 0);
+
+    // Both the windows and the busy intervals are in time order, so the busy intervals that end before a window
+    // starts can be skipped for all later windows
+    let first = 0;
+    let utilizationWindows = windows.map(window => {
+        while (first < busyIntervals.length && busyIntervals[first].end <= window.start)
+            first++;
+        let windowBusy = 0;
+        for (let i = first; i < busyIntervals.length && busyIntervals[i].start < window.end; i++) {
+            windowBusy += Math.min(busyIntervals[i].end, window.end) - Math.max(busyIntervals[i].start, window.start);
+        }
+        let length = window.end - window.start;
+        return { ...window, busyTime: windowBusy, utilization: length > 0 ? windowBusy / length : 0 };
+    });
+    let peakUtilization = utilizationWindows.reduce((max, w) => Math.max(max, w.utilization), 0);
+
+    return {
+        thread,
+        messageCount: handlings.length,
+        busyTime,
+        idleTime: span - busyTime,
+        utilization: span > 0 ? busyTime / span : 0,
+        maxNestingDepth,
+        nestedMessageCount,
+        busyIntervals,
+        windows: utilizationWindows,
+        peakUtilization,
+        saturated: peakUtilization >= saturationThreshold
+    };
+}
@@ -0,0 +1,276 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+import { InstanceDecl, MessageOccurrance, TraceDocument, TraceParserUtils, type Token } from "./trace-parser.js";
+import { event, matchesPattern, port, type MessageFilter, type Pattern } from "./trace-filter.js";
+
+/**
+ * Thrown when an assertion about a trace fails. Test runners report it like any other failed assertion.
+ */
+export class TraceAssertionError extends Error {
+    readonly lines : number[]; // Lines of the trace that the failure message refers to
+
+    constructor(message : string, lines : number[] = []) {
+        super(message);
+        this.name = 'TraceAssertionError';
+        this.lines = lines;
+    }
+}
+
+/**
+ * Start making assertions about a trace, for example
+ *
+ *     expectTrace(doc).message('ready').from('guesser[*]').to('application.guesserP').exactly(10);
+ *     expectTrace(doc).message('start').afterAll(expectTrace(doc).message('ready'), 5e6);
+ *     expectTrace(doc).onPort('p2').never();
+ *
+ * @param trace .art-trace text, or an already parsed trace
+ */
+export function expectTrace(trace : string | TraceDocument) : MessageExpectation {
+    let document : TraceDocument;
+    if (typeof trace === 'string') {
+        document = new TraceDocument();
+        document.addText(trace);
+    }
+    else {
+        document = trace;
+    }
+    return new MessageExpectation(document, [], []);
+}
+
+/**
+ * A set of messages of a trace to make assertions about. The methods that narrow down the set (e.g. from() and to())
+ * return a new expectation, while the assertion methods (e.g. exactly() and afterAll()) throw a TraceAssertionError
+ * if the assertion fails and otherwise return the expectation, so several assertions can be chained.
+ */
+export class MessageExpectation {
+    readonly document : TraceDocument;
+    private readonly filters : MessageFilter[];
+    private readonly descriptions : string[];
+
+    constructor(document : TraceDocument, filters : MessageFilter[], descriptions : string[]) {
+        this.document = document;
+        this.filters = filters;
+        this.descriptions = descriptions;
+    }
+
+    /**
+     * Description of the set of messages, as used in failure messages
+     */
+    get description() : string {
+        let text = this.descriptions.join(' ');
+        return text.startsWith('message ') ? text : `message ${text}`.trim();
+    }
+
+    /**
+     * The messages that belong to the set, in trace order
+     */
+    get messages() : MessageOccurrance[] {
+        return this.document.messages.filter(msg => this.filters.every(filter => filter(msg, this.document)));
+    }
+
+    /**
+     * Messages with a matching event name
+     */
+    public message(pattern : Pattern) : MessageExpectation {
+        return this.narrow(event(pattern), `message ${patternText(pattern)}`);
+    }
+
+    /**
+     * Messages sent by a matching sender. The pattern is matched against the structure path of the sender instance
+     * (e.g. guesser[*]) and against the path followed by the sender port (e.g. application.guesserP).
+     */
+    public from(pattern : Pattern) : MessageExpectation {
+        return this.narrow((msg, document) => endpointMatches(document, msg.sender, msg.senderPort, msg.senderPortIndex, pattern), `from ${patternText(pattern)}`);
+    }
+
+    /**
+     * Messages received by a matching receiver. The pattern is matched against the structure path of the receiver
+     * instance and against the path followed by the receiver port.
+     */
+    public to(pattern : Pattern) : MessageExpectation {
+        return this.narrow((msg, document) => endpointMatches(document, msg.receiver, msg.receiverPort, msg.receiverPortIndex, pattern), `to ${patternText(pattern)}`);
+    }
+
+    /**
+     * Messages sent or received on a matching port
+     * @param index port index (if omitted any index, or no index, matches)
+     */
+    public onPort(pattern : Pattern, index? : number) : MessageExpectation {
+        return this.narrow(port(pattern, index), `on port ${patternText(pattern)}${index !== undefined ? `[${index}]` : ''}`);
+    }
+
+    /**
+     * Messages that match a filter (see trace-filter)
+     * @param description how to describe the filter in failure messages
+     */
+    public where(filter : MessageFilter, description : string = 'matching a filter') : MessageExpectation {
+        return this.narrow(filter, description);
+    }
+
+    /**
+     * Assert that the set contains a certain number of messages
+     */
+    public exactly(count : number) : MessageExpectation {
+        return this.assertCount(n => n == count, count == 0 ? 'no' : `exactly ${times(count)} of`);
+    }
+
+    public atLeast(count : number) : MessageExpectation {
+        return this.assertCount(n => n >= count, `at least ${times(count)} of`);
+    }
+
+    public atMost(count : number) : MessageExpectation {
+        return this.assertCount(n => n <= count, `at most ${times(count)} of`);
+    }
+
+    public once() : MessageExpectation {
+        return this.exactly(1);
+    }
+
+    public never() : MessageExpectation {
+        return this.exactly(0);
+    }
+
+    /**
+     * Assert that the set contains at least one message
+     */
+    public toOccur() : MessageExpectation {
+        return this.atLeast(1);
+    }
+
+    /**
+     * Assert that both sets contain at least one message, and that all messages of this set come after all messages
+     * of the other set. The order is the order of the trace.
+     * @param other the messages that must come first
+     * @param within maximum number of nanoseconds from the last message of the other set to each message of this set
+     */
+    public afterAll(other : MessageExpectation, within? : number) : MessageExpectation {
+        let expectation = `Expected ${this.description} after all ${other.description}${withinText(within)}`;
+        let mine = this.requireMessages(expectation);
+        let others = other.requireMessages(expectation);
+        let last = others[others.length - 1];
+        for (let msg of mine) {
+            if (lineOf(msg) < lineOf(last))
+                throw new TraceAssertionError(`${expectation}, but line ${lineOf(msg)} comes before line ${lineOf(last)}`, [lineOf(msg), lineOf(last)]);
+            this.checkWithin(expectation, last, msg, within);
+        }
+        return this;
+    }
+
+    /**
+     * Assert that the set contains at least one message, and that each of its messages is preceded by a message
+     * of another set. The order is the order of the trace.
+     * @param other the messages that must come first
+     * @param within maximum number of nanoseconds from the closest preceding message of the other set
+     */
+    public after(other : MessageExpectation, within? : number) : MessageExpectation {
+        let expectation = `Expected each ${this.description} after ${other.description}${withinText(within)}`;
+        let mine = this.requireMessages(expectation);
+        let others = other.messages;
+        for (let msg of mine) {
+            let preceding = others.filter(o => o !== msg && lineOf(o) <= lineOf(msg)).pop();
+            if (!preceding)
+                throw new TraceAssertionError(`${expectation}, but line ${lineOf(msg)} is not preceded by ${other.description}`, [lineOf(msg)]);
+            this.checkWithin(expectation, preceding, msg, within);
+        }
+        return this;
+    }
+
+    private narrow(filter : MessageFilter, description : string) : MessageExpectation {
+        return new MessageExpectation(this.document, [...this.filters, filter], [...this.descriptions, description]);
+    }
+
+    private assertCount(ok : (count : number) => boolean, expected : string) : MessageExpectation {
+        let found = this.messages;
+        if (!ok(found.length)) {
+            let lines = found.map(lineOf);
+            let where = lines.length > 0 ? ` (${lineList(lines)})` : '';
+            throw new TraceAssertionError(`Expected ${expected} ${this.description}, but found ${found.length}${where}`, lines);
+        }
+        return this;
+    }
+
+    private requireMessages(expectation : string) : MessageOccurrance[] {
+        let found = this.messages;
+        if (found.length == 0)
+            throw new TraceAssertionError(`${expectation}, but found no ${this.description}`);
+        return found;
+    }
+
+    private checkWithin(expectation : string, first : MessageOccurrance, second : MessageOccurrance, within : number | undefined) : void {
+        if (within === undefined)
+            return;
+        let start = timeOf(this.document, first), end = timeOf(this.document, second);
+        if (start === undefined || end === undefined) {
+            let missing = [first, second].filter(msg => timeOf(this.document, msg) === undefined).map(lineOf);
+            throw new TraceAssertionError(`${expectation}, but ${lineList(missing)} ${missing.length == 1 ? 'has' : 'have'} no timestamp`, missing);
+        }
+        if (end - start > within)
+            throw new TraceAssertionError(`${expectation}, but line ${lineOf(second)} comes ${formatDuration(end - start)} after line ${lineOf(first)}`, [lineOf(first), lineOf(second)]);
+    }
+}
+
+function endpointMatches(document : TraceDocument, address : Token, portToken : Token | undefined, portIndex : number | undefined, pattern : Pattern) : boolean {
+    let instance : InstanceDecl | undefined = document.getInstance(address);
+    if (!instance)
+        return false;
+    let path = TraceParserUtils.structureExprToString(instance.structureExpr);
+    let candidates = [path];
+    if (portToken) {
+        candidates.push(`${path}.${portToken.text}`);
+        if (portIndex !== undefined)
+            candidates.push(`${path}.${portToken.text}[${portIndex}]`);
+    }
+    return candidates.some(text => matchesPattern(pattern, text));
+}
+
+/**
+ * The time of a message in nanoseconds: when it was handled, or else when it was received or sent
+ */
+function timeOf(document : TraceDocument, msg : MessageOccurrance) : number | undefined {
+    let raw = msg.data.time3_handle ?? msg.data.time2_receive ?? msg.data.time1_send;
+    return raw === undefined ? undefined : document.timestamps.toNanoseconds(raw);
+}
+
+function lineOf(msg : MessageOccurrance) : number {
+    return msg.range?.startLine ?? msg.sender.line;
+}
+
+function lineList(lines : number[]) : string {
+    const max = 10;
+    let list = lines.slice(0, max).join(', ');
+    return `${lines.length == 1 ? 'line' : 'lines'} ${list}${lines.length > max ? `, ... (${lines.length - max} more)` : ''}`;
+}
+
+function patternText(pattern : Pattern) : string {
+    return pattern instanceof RegExp ? pattern.toString() : pattern;
+}
+
+function times(count : number) : string {
+    return count == 1 ? '1 occurrence' : `${count} occurrences`;
+}
+
+function withinText(within : number | undefined) : string {
+    return within !== undefined ? ` within ${formatDuration(within)}` : '';
+}
+
+function formatDuration(ns : number) : string {
+    if (Math.abs(ns) >= 1e6)
+        return `${+(ns / 1e6).toFixed(3)} ms`;
+    if (Math.abs(ns) >= 1e3)
+        return `${+(ns / 1e3).toFixed(3)} us`;
+    return `${ns} ns`;
+}
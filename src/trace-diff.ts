@@ -0,0 +1,340 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+import { MessageOccurrance, TraceDocument, TraceParserUtils, type Token } from "./trace-parser.js";
+
+/**
+ * How a message of one trace relates to the other trace
+ */
+export type TraceDiffKind =
+    'equal' | // The message is in both traces
+    'changed' | // The message is in both traces, but with different parameter data
+    'missing' | // The message is only in the left trace
+    'inserted' | // The message is only in the right trace
+    'reordered'; // The message is in both traces, but at different positions
+
+/**
+ * A row of a trace diff. For 'equal' and 'changed' rows both messages are set. For 'missing' rows only the left message
+ * is set, and for 'inserted' rows only the right message. A reordered message gives two rows: one at its position in the
+ * left trace (where only the left message is set) and one at its position in the right trace (where only the right message is set).
+ */
+export interface TraceDiffEntry {
+    kind : TraceDiffKind;
+    left? : MessageOccurrance;
+    right? : MessageOccurrance;
+    leftIndex? : number; // Index of the left message among the messages of the left trace
+    rightIndex? : number; // Index of the right message among the messages of the right trace
+    movedTo? : number; // For a reordered message in the left trace, the index of the same message in the right trace
+    movedFrom? : number; // For a reordered message in the right trace, the index of the same message in the left trace
+}
+
+/**
+ * The differences between two traces
+ */
+export interface TraceDiff {
+    entries : TraceDiffEntry[];
+    counts : {[kind in TraceDiffKind] : number}; // Number of messages of each kind (a reordered message is counted once)
+}
+
+/**
+ * Options for comparing traces
+ */
+export interface TraceDiffOptions {
+    compareParamData? : boolean; // Report messages with different parameter data as changed (default true)
+}
+
+/**
+ * Compare the messages of two traces (e.g. from a good and a bad build). Messages are compared without considering
+ * addresses (also within parameter data) and timestamps; instead instances are identified by structure path and
+ * dynamic type. The message sequences are aligned with the Myers diff algorithm, and a message that is missing at
+ * one position and inserted at another is reported as reordered.
+ * @param left the first trace (e.g. from the good build)
+ * @param right the second trace (e.g. from the bad build)
+ */
+export function diffTraces(left : TraceDocument, right : TraceDocument, options : TraceDiffOptions = {}) : TraceDiff {
+    let compareParamData = options.compareParamData ?? true;
+    let keyIds = new Map<string, number>();
+    let keysOf = (document : TraceDocument) => document.messages.map(msg => {
+        let key = messageKey(document, msg);
+        let id = keyIds.get(key);
+        if (id === undefined) {
+            id = keyIds.size;
+            keyIds.set(key, id);
+        }
+        return id;
+    });
+    let leftKeys = keysOf(left), rightKeys = keysOf(right);
+
+    let entries : TraceDiffEntry[] = [];
+    let i = 0, j = 0;
+    for (let op of myersDiff(leftKeys, rightKeys)) {
+        if (op == '=') {
+            let l = left.messages[i], r = right.messages[j];
+            let kind : TraceDiffKind = compareParamData && paramDataKey(l) != paramDataKey(r) ? 'changed' : 'equal';
+            entries.push({ kind, left: l, right: r, leftIndex: i++, rightIndex: j++ });
+        }
+        else if (op == '-') {
+            entries.push({ kind: 'missing', left: left.messages[i], leftIndex: i++ });
+        }
+        else {
+            entries.push({ kind: 'inserted', right: right.messages[j], rightIndex: j++ });
+        }
+    }
+
+    // Pair missing and inserted messages with the same key in order of appearance
+    let missingByKey = new Map<number, TraceDiffEntry[]>();
+    for (let entry of entries) {
+        if (entry.kind != 'missing')
+            continue;
+        let key = leftKeys[entry.leftIndex];
+        if (!missingByKey.has(key))
+            missingByKey.set(key, []);
+        missingByKey.get(key).push(entry);
+    }
+    for (let entry of entries) {
+        if (entry.kind != 'inserted')
+            continue;
+        let missing = missingByKey.get(rightKeys[entry.rightIndex])?.shift();
+        if (!missing)
+            continue;
+        missing.kind = entry.kind = 'reordered';
+        missing.movedTo = entry.rightIndex;
+        entry.movedFrom = missing.leftIndex;
+    }
+
+    let counts = { equal: 0, changed: 0, missing: 0, inserted: 0, reordered: 0 };
+    for (let entry of entries) {
+        if (entry.kind != 'reordered' || entry.left)
+            counts[entry.kind]++;
+    }
+    return { entries, counts };
+}
+
+/**
+ * Format a trace diff as text, with one line per row prefixed by ' ' (equal), '!' (changed), '-' (missing),
+ * '+' (inserted) or '~' (reordered).
+ * @param diff the trace diff
+ * @param contextLines number of equal messages to show around differences (all are shown if omitted)
+ */
+export function formatTraceDiff(diff : TraceDiff, contextLines? : number) : string {
+    let lines : string[] = [];
+    let show = diff.entries.map(entry => entry.kind != 'equal');
+    if (contextLines !== undefined) {
+        let near = show.map((_, i) => show.slice(Math.max(0, i - contextLines), i + contextLines + 1).some(s => s));
+        show = near;
+    }
+    else {
+        show = show.map(() => true);
+    }
+
+    let skipped = 0;
+    diff.entries.forEach((entry, i) => {
+        if (!show[i]) {
+            skipped++;
+            return;
+        }
+        if (skipped > 0) {
+            lines.push(`@@ ${skipped} equal message(s) @@`);
+            skipped = 0;
+        }
+        switch (entry.kind) {
+            case 'equal': lines.push(`  ${messageText(entry.left)}`); break;
+            case 'changed': lines.push(`! ${messageText(entry.left)} => (${entry.right.data.paramData})`); break;
+            case 'missing': lines.push(`- ${messageText(entry.left)}`); break;
+            case 'inserted': lines.push(`+ ${messageText(entry.right)}`); break;
+            case 'reordered':
+                if (entry.left)
+                    lines.push(`~ ${messageText(entry.left)} (moved to message ${entry.movedTo + 1} of right trace)`);
+                else
+                    lines.push(`~ ${messageText(entry.right)} (moved from message ${entry.movedFrom + 1} of left trace)`);
+                break;
+        }
+    });
+    if (skipped > 0)
+        lines.push(`@@ ${skipped} equal message(s) @@`);
+    return lines.join('\n');
+}
+
+/**
+ * A message in a side-by-side diff, described by structure paths instead of addresses
+ */
+export interface SideBySideMessage {
+    from : string; // Structure path of the sender
+    to : string; // Structure path of the receiver
+    event : string;
+    paramData : string;
+    line : number; // Line of the message in its trace
+}
+
+export interface SideBySideRow {
+    kind : TraceDiffKind;
+    left? : SideBySideMessage;
+    right? : SideBySideMessage;
+}
+
+/**
+ * A trace diff in a form suitable for rendering two sequence diagrams side by side
+ */
+export interface SideBySideDiff {
+    participants : string[]; // Structure paths of all senders and receivers, in order of first appearance
+    rows : SideBySideRow[];
+}
+
+/**
+ * Convert a trace diff to a side-by-side form
+ * @param diff the trace diff
+ * @param left the left trace that was compared
+ * @param right the right trace that was compared
+ */
+export function toSideBySide(diff : TraceDiff, left : TraceDocument, right : TraceDocument) : SideBySideDiff {
+    let participants : string[] = [];
+    let toSide = (document : TraceDocument, msg : MessageOccurrance | undefined) : SideBySideMessage | undefined => {
+        if (!msg)
+            return undefined;
+        let from = instancePath(document, msg.sender, msg.senderName), to = instancePath(document, msg.receiver, msg.receiverName);
+        for (let participant of [from, to]) {
+            if (!participants.includes(participant))
+                participants.push(participant);
+        }
+        return { from, to, event: msg.event.text, paramData: msg.data.paramData, line: msg.range?.startLine ?? 0 };
+    };
+    let rows = diff.entries.map(entry => ({ kind: entry.kind, left: toSide(left, entry.left), right: toSide(right, entry.right) }));
+    return { participants, rows };
+}
+
+function instancePath(document : TraceDocument, address : Token, name : string) : string {
+    let instance = document.getInstance(address);
+    return instance ? TraceParserUtils.structureExprToString(instance.structureExpr) : name;
+}
+
+function instanceKey(document : TraceDocument, address : Token, name : string, port : Token | undefined, portIndex : number | undefined) : string {
+    let instance = document.getInstance(address);
+    let key = `${instancePath(document, address, name)}:${instance?.dynamicType?.text ?? ''}`;
+    if (port)
+        key += `.${port.text}`;
+    if (portIndex !== undefined)
+        key += `[${portIndex}]`;
+    return key;
+}
+
+/**
+ * A key that identifies a message without considering addresses, timestamps and parameter data
+ */
+function messageKey(document : TraceDocument, msg : MessageOccurrance) : string {
+    return `${instanceKey(document, msg.sender, msg.senderName, msg.senderPort, msg.senderPortIndex)} -> ` +
+        `${instanceKey(document, msg.receiver, msg.receiverName, msg.receiverPort, msg.receiverPortIndex)} : ${msg.event.text}`;
+}
+
+/**
+ * The parameter data of a message with addresses (e.g. of RTActorId values) replaced, since they differ between runs
+ */
+function paramDataKey(msg : MessageOccurrance) : string {
+    return msg.data.paramData.trim().replace(/0[xX][0-9a-fA-F]+/g, '0x');
+}
+
+function messageText(msg : MessageOccurrance) : string {
+    let senderPort = msg.senderPort ? `.${msg.senderPort.text}` : '';
+    let receiverPort = msg.receiverPort ? `.${msg.receiverPort.text}` : '';
+    return `${msg.senderName}${senderPort} -> ${msg.receiverName}${receiverPort} : ${msg.event.text}(${msg.data.paramData})`;
+}
+
+/**
+ * Compute the shortest edit script that turns sequence a into sequence b (E. Myers, "An O(ND) Difference
+ * Algorithm and Its Variations"). The linear space variant is used: the middle snake of an optimal path is found
+ * by searching from both ends at the same time, and then the parts before and after it are diffed recursively.
+ * @returns one operation per element: '=' (in both), '-' (only in a) or '+' (only in b)
+ */
+function myersDiff(a : number[], b : number[]) : ('=' | '-' | '+')[] {
+    let ops : ('=' | '-' | '+')[] = [];
+    let max = Math.ceil((a.length + b.length) / 2) + 1;
+    let forward = new Int32Array(2 * max + 1); // For each diagonal, the furthest x reached from the start
+    let backward = new Int32Array(2 * max + 1); // For each diagonal, the furthest distance reached from the end
+
+    // Find the middle snake of the sequences a[aStart..aEnd) and b[bStart..bEnd). Both are known to be
+    // non-empty and to differ in their first and last elements.
+    let middleSnake = (aStart : number, aEnd : number, bStart : number, bEnd : number) => {
+        let n = aEnd - aStart, m = bEnd - bStart;
+        let delta = n - m, odd = (delta & 1) != 0;
+        forward[max + 1] = 0;
+        backward[max + 1] = 0;
+        for (let d = 0; d <= Math.ceil((n + m) / 2); d++) {
+            for (let k = -d; k <= d; k += 2) {
+                let x = k == -d || (k != d && forward[max + k - 1] < forward[max + k + 1]) ? forward[max + k + 1] : forward[max + k - 1] + 1;
+                let y = x - k;
+                let startX = x, startY = y;
+                while (x < n && y < m && a[aStart + x] == b[bStart + y]) {
+                    x++;
+                    y++;
+                }
+                forward[max + k] = x;
+                let c = delta - k;
+                if (odd && c >= -(d - 1) && c <= d - 1 && x + backward[max + c] >= n)
+                    return { x: startX, y: startY, u: x, v: y };
+            }
+            for (let c = -d; c <= d; c += 2) {
+                let x = c == -d || (c != d && backward[max + c - 1] < backward[max + c + 1]) ? backward[max + c + 1] : backward[max + c - 1] + 1;
+                let y = x - c;
+                let startX = x, startY = y;
+                while (x < n && y < m && a[aEnd - 1 - x] == b[bEnd - 1 - y]) {
+                    x++;
+                    y++;
+                }
+                backward[max + c] = x;
+                let k = delta - c;
+                if (!odd && k >= -d && k <= d && forward[max + k] + x >= n)
+                    return { x: n - x, y: m - y, u: n - startX, v: m - startY };
+            }
+        }
+        throw new Error('No middle snake found');
+    };
+
+    let diff = (aStart : number, aEnd : number, bStart : number, bEnd : number) : void => {
+        let prefix = 0;
+        while (aStart + prefix < aEnd && bStart + prefix < bEnd && a[aStart + prefix] == b[bStart + prefix])
+            prefix++;
+        let suffix = 0;
+        while (aEnd - suffix > aStart + prefix && bEnd - suffix > bStart + prefix && a[aEnd - 1 - suffix] == b[bEnd - 1 - suffix])
+            suffix++;
+        for (let i = 0; i < prefix; i++)
+            ops.push('=');
+        aStart += prefix;
+        bStart += prefix;
+        aEnd -= suffix;
+        bEnd -= suffix;
+
+        if (aStart == aEnd) {
+            for (let i = bStart; i < bEnd; i++)
+                ops.push('+');
+        }
+        else if (bStart == bEnd) {
+            for (let i = aStart; i < aEnd; i++)
+                ops.push('-');
+        }
+        else {
+            // Both parts have a shorter edit script than the whole, so the recursion depth is logarithmic in its length
+            let snake = middleSnake(aStart, aEnd, bStart, bEnd);
+            diff(aStart, aStart + snake.x, bStart, bStart + snake.y);
+            for (let i = snake.x; i < snake.u; i++)
+                ops.push('=');
+            diff(aStart + snake.u, aEnd, bStart + snake.v, bEnd);
+        }
+        for (let i = 0; i < suffix; i++)
+            ops.push('=');
+    };
+
+    diff(0, a.length, 0, b.length);
+    return ops;
+}
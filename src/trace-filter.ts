@@ -0,0 +1,239 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+import { InstanceDecl, MessageOccurrance, SortCriteria, TraceDocument, TraceParserUtils, type Token } from "./trace-parser.js";
+
+/**
+ * A condition on a message of a trace. Filters are composed with and(), or() and not().
+ */
+export type MessageFilter = (msg : MessageOccurrance, document : TraceDocument) => boolean;
+
+/**
+ * A pattern for matching text. A string is a glob pattern where * matches any sequence of characters except '.',
+ * ** matches any sequence of characters and ? matches a single character. All other characters (including
+ * brackets) match themselves, so guesser[*] matches guesser[0], guesser[1] etc.
+ */
+export type Pattern = string | RegExp;
+
+/**
+ * Answers if a text matches a pattern. A glob pattern must match the whole text.
+ */
+export function matchesPattern(pattern : Pattern, text : string) : boolean {
+    if (pattern instanceof RegExp) {
+        pattern.lastIndex = 0;
+        return pattern.test(text);
+    }
+    return globToRegExp(pattern).test(text);
+}
+
+const globCache = new Map<string, RegExp>();
+
+function globToRegExp(glob : string) : RegExp {
+    let regexp = globCache.get(glob);
+    if (!regexp) {
+        let source = glob.replace(/\*\*|\*|\?|[.+^${}()|[\]\\]/g, c =>
+            c == '**' ? '.*' : c == '*' ? '[^.]*' : c == '?' ? '.' : '\\' + c);
+        regexp = new RegExp(`^${source}$`);
+        globCache.set(glob, regexp);
+    }
+    return regexp;
+}
+
+/**
+ * Messages that match all filters
+ */
+export function and(...filters : MessageFilter[]) : MessageFilter {
+    return (msg, document) => filters.every(filter => filter(msg, document));
+}
+
+/**
+ * Messages that match at least one of the filters
+ */
+export function or(...filters : MessageFilter[]) : MessageFilter {
+    return (msg, document) => filters.some(filter => filter(msg, document));
+}
+
+/**
+ * Messages that don't match a filter
+ */
+export function not(filter : MessageFilter) : MessageFilter {
+    return (msg, document) => !filter(msg, document);
+}
+
+/**
+ * Messages sent by an instance with a matching structure path (see TraceParserUtils.structureExprToString())
+ */
+export function senderPath(pattern : Pattern) : MessageFilter {
+    return (msg, document) => instanceMatches(document, msg.sender, instance => TraceParserUtils.structureExprToString(instance.structureExpr), pattern);
+}
+
+/**
+ * Messages received by an instance with a matching structure path (see TraceParserUtils.structureExprToString())
+ */
+export function receiverPath(pattern : Pattern) : MessageFilter {
+    return (msg, document) => instanceMatches(document, msg.receiver, instance => TraceParserUtils.structureExprToString(instance.structureExpr), pattern);
+}
+
+/**
+ * Messages sent or received by an instance with a matching structure path
+ */
+export function instancePath(pattern : Pattern) : MessageFilter {
+    return or(senderPath(pattern), receiverPath(pattern));
+}
+
+/**
+ * Messages sent by an instance with a matching dynamic type
+ */
+export function senderType(pattern : Pattern) : MessageFilter {
+    return (msg, document) => instanceMatches(document, msg.sender, instance => instance.dynamicType?.text, pattern);
+}
+
+/**
+ * Messages received by an instance with a matching dynamic type
+ */
+export function receiverType(pattern : Pattern) : MessageFilter {
+    return (msg, document) => instanceMatches(document, msg.receiver, instance => instance.dynamicType?.text, pattern);
+}
+
+/**
+ * Messages sent on a matching port
+ * @param pattern pattern for the port name
+ * @param index port index (if omitted any index, or no index, matches)
+ */
+export function senderPort(pattern : Pattern, index? : number) : MessageFilter {
+    return msg => portMatches(msg.senderPort, msg.senderPortIndex, pattern, index);
+}
+
+/**
+ * Messages received on a matching port
+ * @param pattern pattern for the port name
+ * @param index port index (if omitted any index, or no index, matches)
+ */
+export function receiverPort(pattern : Pattern, index? : number) : MessageFilter {
+    return msg => portMatches(msg.receiverPort, msg.receiverPortIndex, pattern, index);
+}
+
+/**
+ * Messages sent or received on a matching port
+ */
+export function port(pattern : Pattern, index? : number) : MessageFilter {
+    return or(senderPort(pattern, index), receiverPort(pattern, index));
+}
+
+/**
+ * Messages with a matching event name
+ */
+export function event(pattern : Pattern) : MessageFilter {
+    return msg => matchesPattern(pattern, msg.event.text);
+}
+
+/**
+ * Messages where the parameter data matches a regular expression (the regular expression doesn't need to match
+ * the whole parameter data)
+ */
+export function paramData(regexp : RegExp | string) : MessageFilter {
+    let re = typeof regexp === 'string' ? new RegExp(regexp) : regexp;
+    return msg => matchesPattern(re, msg.data.paramData);
+}
+
+/**
+ * Messages received by an instance that runs in a matching thread
+ */
+export function thread(pattern : Pattern) : MessageFilter {
+    return (msg, document) => instanceMatches(document, msg.receiver, instance => instance.data?.thread_name, pattern);
+}
+
+/**
+ * Messages with a timestamp within a time range. Messages without the timestamp don't match.
+ * @param from start of the time range in nanoseconds (see TimestampNormalizer.toNanoseconds()), or undefined for no start
+ * @param to end of the time range (inclusive) in nanoseconds, or undefined for no end
+ * @param criteria the timestamp to use (default is the handle time)
+ */
+export function timeRange(from : number | undefined, to : number | undefined, criteria : SortCriteria = SortCriteria.HANDLE_TIME) : MessageFilter {
+    return (msg, document) => {
+        let raw = criteria == SortCriteria.RECEIVE_TIME ? msg.data.time2_receive : criteria == SortCriteria.SEND_TIME ? msg.data.time1_send : msg.data.time3_handle;
+        if (raw === undefined)
+            return false;
+        let ns = document.timestamps.toNanoseconds(raw);
+        return (from === undefined || ns >= from) && (to === undefined || ns <= to);
+    };
+}
+
+function instanceMatches(document : TraceDocument, address : Token, property : (instance : InstanceDecl) => string | undefined, pattern : Pattern) : boolean {
+    let instance = document.getInstance(address);
+    let text = instance ? property(instance) : undefined;
+    return text !== undefined && matchesPattern(pattern, text);
+}
+
+function portMatches(portToken : Token | undefined, portIndex : number | undefined, pattern : Pattern, index : number | undefined) : boolean {
+    if (!portToken || !matchesPattern(pattern, portToken.text))
+        return false;
+    return index === undefined || portIndex === index;
+}
+
+/**
+ * Options for which other AST nodes to keep together with the messages that match a filter
+ */
+export interface FilterOptions {
+    // Instance declarations to keep. 'related' (default) keeps the declarations of the senders and receivers of the kept messages.
+    instances? : 'related' | 'all' | 'none';
+    // Notes to keep. 'related' (default) keeps the notes that are located between the first and last kept message.
+    notes? : 'related' | 'all' | 'none';
+}
+
+/**
+ * Create a new trace with the messages of a trace that match a filter. The AST nodes of the new trace keep their
+ * order and source ranges from the original trace, and the new trace can be written to a file with the TraceWriter.
+ * The new trace has its own parser with a copy of the trace configuration of the original trace.
+ * @param document the trace to filter
+ * @param filter the condition for the messages to keep
+ * @param options what to keep in addition to the matching messages
+ */
+export function filterTrace(document : TraceDocument, filter : MessageFilter, options : FilterOptions = {}) : TraceDocument {
+    let instancesOption = options.instances ?? 'related';
+    let notesOption = options.notes ?? 'related';
+
+    let keptMessages = new Set<MessageOccurrance>();
+    let relatedInstances = new Set<InstanceDecl>();
+    let firstIndex = -1, lastIndex = -1;
+    document.nodes.forEach((astNode, index) => {
+        if (!(astNode instanceof MessageOccurrance) || !filter(astNode, document))
+            return;
+        keptMessages.add(astNode);
+        for (let address of [astNode.sender, astNode.receiver]) {
+            let instance = document.getInstance(address);
+            if (instance)
+                relatedInstances.add(instance);
+        }
+        if (firstIndex == -1)
+            firstIndex = index;
+        lastIndex = index;
+    });
+
+    let result = new TraceDocument(document.traceParser.copy());
+    document.nodes.forEach((astNode, index) => {
+        let keep : boolean;
+        if (astNode instanceof MessageOccurrance)
+            keep = keptMessages.has(astNode);
+        else if (astNode instanceof InstanceDecl)
+            keep = instancesOption == 'all' || (instancesOption == 'related' && relatedInstances.has(astNode));
+        else
+            keep = notesOption == 'all' || (notesOption == 'related' && index > firstIndex && index < lastIndex);
+        if (keep)
+            result.addNode(astNode);
+    });
+    return result;
+}
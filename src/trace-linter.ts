@@ -0,0 +1,163 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+import { DiagnosticSeverity, InstanceDecl, MessageOccurrance, normalizeAddress, Note, TraceDocument, TraceParserUtils, type Token } from "./trace-parser.js";
+import { analyzeSynchronousCalls } from "./synchronous-calls.js";
+
+/**
+ * The checks made by the trace linter
+ */
+export type LintRule =
+    'handle-before-receive' | // A message was handled before it was received
+    'non-monotonic-handle-time' | // A message was handled before the previous message on the same thread of the same application
+    'undeclared-instance' | // A message refers to an address that has not been declared before
+    'duplicate-instance' | // An address is declared more than once
+    'orphan-reply' | // A reply doesn't match any invoke
+    'unexpected-timestamp' | // A message or note has a timestamp that is disabled in the trace configuration
+    'missing-timestamp' | // A message or note lacks a timestamp that is enabled in the trace configuration
+    'missing-thread-name'; // An instance doesn't have a thread name
+
+/**
+ * A problem found in a trace by the trace linter
+ */
+export class LintFinding {
+    line : number; // Line number in the document
+    severity : DiagnosticSeverity;
+    rule : LintRule;
+    message : string;
+    node : InstanceDecl | MessageOccurrance | Note; // The AST node with the problem
+
+    constructor(line : number, severity : DiagnosticSeverity, rule : LintRule, message : string, node : InstanceDecl | MessageOccurrance | Note) {
+        this.line = line;
+        this.severity = severity;
+        this.rule = rule;
+        this.message = message;
+        this.node = node;
+    }
+}
+
+/**
+ * Options for the trace linter
+ */
+export interface LintOptions {
+    disabledRules? : LintRule[]; // Rules to skip
+}
+
+const timestampKeys = ['time1_send', 'time2_receive', 'time3_handle'] as const;
+
+/**
+ * Check a parsed trace for anomalies in its timestamps and references, which could indicate a problem with how
+ * the trace was produced or processed (e.g. merged or edited by hand).
+ * @param document the trace
+ * @param options which rules to skip
+ * @returns the problems found, in line order
+ */
+export function lintTrace(document : TraceDocument, options : LintOptions = {}) : LintFinding[] {
+    let findings : LintFinding[] = [];
+    let disabled = new Set(options.disabledRules ?? []);
+    let report = (line : number, severity : DiagnosticSeverity, rule : LintRule, message : string, node : InstanceDecl | MessageOccurrance | Note) => {
+        if (!disabled.has(rule))
+            findings.push(new LintFinding(line, severity, rule, message, node));
+    };
+
+    // Instance declarations
+    let lifetimes = [...document.registry.allLifetimes()].sort((a, b) => a.startLine - b.startLine);
+    let declared = new Map<string, InstanceDecl>();
+    for (let lifetime of lifetimes) {
+        let decl = lifetime.instance;
+        let key = normalizeAddress(decl.address.text);
+        let previous = declared.get(key);
+        if (previous) {
+            let path = TraceParserUtils.structureExprToString(decl.structureExpr);
+            if (path == TraceParserUtils.structureExprToString(previous.structureExpr) && decl.dynamicType?.text == previous.dynamicType?.text)
+                report(lifetime.startLine, DiagnosticSeverity.WARNING, 'duplicate-instance', `Instance ${path} at address ${decl.address.text} is already declared at line ${lineOf(previous)}`, decl);
+            else
+                report(lifetime.startLine, DiagnosticSeverity.INFO, 'duplicate-instance', `Address ${decl.address.text} of instance ${path} is reused (previously declared at line ${lineOf(previous)})`, decl);
+        }
+        declared.set(key, decl);
+    }
+
+    // If no instance has a thread name the trace was produced without thread information, so then report it only once
+    let withoutThreadName = lifetimes.filter(lifetime => !lifetime.instance.data?.thread_name);
+    if (withoutThreadName.length > 0 && withoutThreadName.length == lifetimes.length) {
+        report(withoutThreadName[0].startLine, DiagnosticSeverity.INFO, 'missing-thread-name', 'No instance has a thread name', withoutThreadName[0].instance);
+    }
+    else {
+        for (let lifetime of withoutThreadName) {
+            let path = TraceParserUtils.structureExprToString(lifetime.instance.structureExpr);
+            report(lifetime.startLine, DiagnosticSeverity.WARNING, 'missing-thread-name', `Instance ${path} has no thread name`, lifetime.instance);
+        }
+    }
+
+    // Messages
+    let timestampConfig = document.traceConfiguration?.timestamps;
+    let lastHandled = new Map<string, {time : number, line : number}>(); // Per thread
+    for (let msg of document.messages) {
+        let line = lineOf(msg);
+        for (let address of [msg.sender, msg.receiver]) {
+            let addressLifetimes = document.registry.getLifetimes(address);
+            if (addressLifetimes.length == 0 || addressLifetimes[0].startLine > line)
+                report(line, DiagnosticSeverity.ERROR, 'undeclared-instance', `No instance is declared at address ${address.text}`, msg);
+        }
+
+        if (timestampConfig) {
+            for (let key of timestampKeys) {
+                if (msg.data[key] !== undefined && !timestampConfig[key])
+                    report(line, DiagnosticSeverity.WARNING, 'unexpected-timestamp', `Message has ${key} although it is disabled in the trace configuration`, msg);
+                else if (msg.data[key] === undefined && timestampConfig[key])
+                    report(line, DiagnosticSeverity.WARNING, 'missing-timestamp', `Message lacks ${key} although it is enabled in the trace configuration`, msg);
+            }
+        }
+
+        if (msg.data.time3_handle === undefined)
+            continue;
+        let handleTime = document.timestamps.toNanoseconds(msg.data.time3_handle);
+        if (msg.data.time2_receive !== undefined && handleTime < document.timestamps.toNanoseconds(msg.data.time2_receive))
+            report(line, DiagnosticSeverity.ERROR, 'handle-before-receive', `Message ${msg.event.text} is handled (time3_handle) before it is received (time2_receive)`, msg);
+
+        let thread = document.getInstance(msg.receiver)?.data?.qualifiedThreadName();
+        if (!thread)
+            continue;
+        let previous = lastHandled.get(thread);
+        if (previous && handleTime < previous.time)
+            report(line, DiagnosticSeverity.WARNING, 'non-monotonic-handle-time', `Message ${msg.event.text} is handled on thread ${thread} before the message at line ${previous.line}`, msg);
+        lastHandled.set(thread, { time: handleTime, line });
+    }
+
+    // Notes have a single timestamp, which is expected when at least one message timestamp is enabled
+    if (timestampConfig) {
+        let enabled = timestampKeys.some(key => timestampConfig[key]);
+        for (let note of document.notes) {
+            if (note.data?.time !== undefined && !enabled)
+                report(lineOf(note), DiagnosticSeverity.WARNING, 'unexpected-timestamp', 'Note has a time although timestamps are disabled in the trace configuration', note);
+            else if (note.data?.time === undefined && enabled)
+                report(lineOf(note), DiagnosticSeverity.WARNING, 'missing-timestamp', 'Note lacks a time although timestamps are enabled in the trace configuration', note);
+        }
+    }
+
+    for (let reply of analyzeSynchronousCalls(document).orphanReplies) {
+        report(lineOf(reply), DiagnosticSeverity.ERROR, 'orphan-reply', `Reply ${reply.data.reply} doesn't match any invoke`, reply);
+    }
+
+    return findings.sort((a, b) => a.line - b.line);
+}
+
+function lineOf(node : InstanceDecl | MessageOccurrance | Note) : number {
+    if (node instanceof Note)
+        return node.range?.startLine ?? node.line;
+    let token : Token = node instanceof InstanceDecl ? node.address : node.sender;
+    return node.range?.startLine ?? token.line;
+}
@@ -15,6 +15,8 @@ limitations under the License.
 *******************************************************************************/
 
 import {Tokenizr} from "tokenizr"
+import { decodeParamData, type ParamValue } from "./param-data.js";
+export { decodeParamData, type ParamValue, type ParamNumber, type ParamBoolean, type ParamText, type ParamStruct, type ParamArray, type ParamRaw } from "./param-data.js";
 export type Token = InstanceType<typeof Tokenizr.Token>;
 
 /**
@@ -22,177 +24,578 @@ export type Token = InstanceType<typeof Tokenizr.Token>;
  * @author Mattias Mohlin
  */
 export class TraceParser {
-    private lexer : Tokenizr;
     private traceConfigUnderConstruction : string | undefined = undefined;
+    private traceConfigStart : {line : number, column : number} | undefined = undefined; // Location of the "// {" comment
+    private lineNumber : number = 0; // Number of the line currently being parsed
 
-    // The trace configuration found in the trace (if any), parsed into an object from JSON
-    traceConfiguration : any | undefined = undefined;    
+    // The trace configuration found in the trace (if any), validated and with default values filled in
+    traceConfiguration : TraceConfiguration | undefined = undefined;    
+
+    // The trace configuration found in the trace (if any), parsed into an object from JSON as is
+    rawTraceConfiguration : any | undefined = undefined;
+
+    // Normalizes timestamps according to the trace configuration
+    timestamps : TimestampNormalizer = new TimestampNormalizer();
+
+    private attributeExtractors = new Map<AttributeOwner, Map<string, AttributeExtractor<unknown>>>([
+        ['instance', new Map()], ['message', new Map()], ['note', new Map()]
+    ]);
+
+    // Diagnostics reported for all lines parsed so far
+    diagnostics : ParseDiagnostic[] = [];
+
+    // Diagnostics reported for the most recently parsed line
+    lineDiagnostics : ParseDiagnostic[] = [];
 
     /**
-     * Construct the TraceParser.
-     * @throws an error if an internal error occurs (e.g. if the scanner could not be initialized)
+     * Scan a line into tokens. The scanner is hand-written for speed, and recognizes the following tokens
+     * (where tokens that could start with the same character are tried in the order listed):
+     *   keyword             instance|note
+     *   name                [a-zA-Z_][a-zA-Z0-9_]*
+     *   string              "(?:[^"\\\r\n]|\\.)*"
+     *   address             0x[0-9a-fA-F]+
+     *   number              [0-9]+
+     *   arrow, dot, open-square-bracket, close-square-bracket, colon
+     *   optional-data       \{.*$  (instance or note data)
+     *   event-with-data     \(.*$  (message data)
+     * Line comments (//) and whitespace are skipped. Note that we don't support block comments (/* *\/) since 
+     * we are parsing line-by-line.
+     * @returns the tokens, ending with an EOF token, or null in case of a lexical error
      */
-    constructor() {
-        this.lexer = new Tokenizr();        
-
-        // Keyword
-        this.lexer.rule(/instance|note/, (ctx, match) => {
-            ctx.accept("keyword");
-        });
-        // Name
-        this.lexer.rule(/[a-zA-Z_][a-zA-Z0-9_]*/, (ctx, match) => {
-            ctx.accept("name");
-        });        
-        // String
-        this.lexer.rule(/"(?:[^"\\\r\n]|\\.)*"/, (ctx, match) => {
-            let str = match[0].substring(1, match[0].length - 1); // Remove quotes
-            ctx.accept("string", str);
-        });                
-        // Line comment (//)
-        // Note that we don't support block comments (/* */) since we are parsing line-by-line
-        this.lexer.rule(/\/\/.*?$/, (ctx, match) => {            
-            if (!this.traceConfigUnderConstruction && match[0] == '// {') {
-                this.traceConfigUnderConstruction = '{'; // Begin trace configuration
+    private scanLine(line : string, lineNumber : number) : Token[] | null {
+        let tokens : Token[] = [];
+        let len = line.length;
+        let pos = 0;
+        const accept = (type : string, end : number, value? : unknown) => {
+            let text = line.substring(pos, end);
+            tokens.push(new Tokenizr.Token(type, value !== undefined ? value : text, text, pos, lineNumber, pos + 1));
+            pos = end;
+        };
+
+        while (pos < len) {
+            let c = line.charCodeAt(pos);
+            let end = pos + 1;
+
+            if (isWhitespace(c)) {
+                while (end < len && isWhitespace(line.charCodeAt(end))) 
+                    end++;
+                pos = end;
             }
-            else if (this.traceConfigUnderConstruction && match[0] == '// }') {
-                this.traceConfigUnderConstruction += '}'; // End trace configuration
-                try {
-                    this.traceConfiguration = JSON.parse(this.traceConfigUnderConstruction);
-                }
-                catch (e) {
-                    // Invalid trace configuration JSON
-                    console.error("Warning: Invalid trace configuration JSON found in trace.");
-                }
-                this.traceConfigUnderConstruction = undefined
+            else if (c == CHAR_i && line.startsWith('instance', pos)) {
+                accept("keyword", pos + 8);
             }
-            else if (this.traceConfigUnderConstruction) {
-                this.traceConfigUnderConstruction += match[0].substring(2).trim();
+            else if (c == CHAR_n && line.startsWith('note', pos)) {
+                accept("keyword", pos + 4);
             }
-            ctx.ignore();
-        });
-        // Whitespace
-        this.lexer.rule(/[ \t\r\n]+/, (ctx, match) => {
-            ctx.ignore();
-        });
-        // Address
-        this.lexer.rule(/0x[0-9a-fA-F]+/, (ctx, match) => {
-            ctx.accept("address");
-        });
-        // Number
-        this.lexer.rule(/[0-9]+/, (ctx, match) => {
-            ctx.accept("number", parseInt(match[0]))
-        })        
-        // Arrow (->)
-        this.lexer.rule(/\-\>/, (ctx, match) => {
-            ctx.accept("arrow");
-        });
-        // Dot (.)
-        this.lexer.rule(/\./, (ctx, match) => {
-            ctx.accept("dot");
-        });
-        // Open square bracket ([)
-        this.lexer.rule(/\[/, (ctx, match) => {
-            ctx.accept("open-square-bracket");
-        });
-        // Close square bracket (])
-        this.lexer.rule(/\]/, (ctx, match) => {
-            ctx.accept("close-square-bracket");
-        });
-        // Instance or note data (JSON object)
-        this.lexer.rule(/\{.*$/, (ctx, match) => {
-            let str = match[0];
-            let data : any;
-            try {
-                let j = JSON.parse(str);                
-                if (j.thread_name !== undefined) {
-                    data = new InstanceData();
-                    data.thread_name = j.thread_name;
-                }
-                else if (j.time !== undefined) {
-                    data = new NoteData();
-                    data.time = j.time;
-                }
+            else if (isNameStart(c)) {
+                while (end < len && isNamePart(line.charCodeAt(end))) 
+                    end++;
+                accept("name", end);
+            }
+            else if (c == CHAR_QUOTE && (end = scanString(line, pos)) != -1) {
+                accept("string", end, line.substring(pos + 1, end - 1)); // Remove quotes
+            }
+            else if (c == CHAR_SLASH && line.charCodeAt(pos + 1) == CHAR_SLASH) {
+                this.scanComment(line.substring(pos), pos + 1);
+                pos = len;
+            }
+            else if (c == CHAR_0 && line.charCodeAt(pos + 1) == CHAR_x && isHexDigit(line.charCodeAt(pos + 2))) {
+                end = pos + 3;
+                while (end < len && isHexDigit(line.charCodeAt(end))) 
+                    end++;
+                accept("address", end);
             }
-            catch (e) {
-                // No valid JSON data found 
-            }        
-
-            ctx.accept("optional-data", data);
-        });   
-        // Message data (any text enclosed in parentheses, optionally followed by JSON)
-        this.lexer.rule(/\(.*$/, (ctx, match) => {
-            let str = match[0];            
-            let i = str.lastIndexOf(')');
-            let md = new MessageData();
-            if (i != -1) {
-                md.paramData = str.substring(1, i);
-                try {
-                    let j = JSON.parse(str.substring(i + 1));
-                    if (j.time2_receive !== undefined)
-                        md.time2_receive = j.time2_receive;
-                    if (j.time3_handle !== undefined)
-                        md.time3_handle = j.time3_handle;
-                    if (j.invoke !== undefined)
-                        md.invoke = j.invoke;
-                    if (j.reply !== undefined)
-                        md.reply = j.reply;
-                }
-                catch (e) {
-                    // No JSON data found after closing parenthesis
-                }
+            else if (isDigit(c)) {
+                while (end < len && isDigit(line.charCodeAt(end))) 
+                    end++;
+                accept("number", end, parseInt(line.substring(pos, end)));
             }
-            else
-                md.paramData = str.substring(1); // Missing closing parenthesis
+            else if (c == CHAR_MINUS && line.charCodeAt(pos + 1) == CHAR_GREATER) {
+                accept("arrow", pos + 2);
+            }
+            else if (c == CHAR_DOT) {
+                accept("dot", end);
+            }
+            else if (c == CHAR_OPEN_SQUARE) {
+                accept("open-square-bracket", end);
+            }
+            else if (c == CHAR_CLOSE_SQUARE) {
+                accept("close-square-bracket", end);
+            }
+            else if (c == CHAR_OPEN_CURLY) {
+                accept("optional-data", len, this.scanOptionalData(line.substring(pos), pos + 1));
+            }
+            else if (c == CHAR_OPEN_PAREN) {
+                accept("event-with-data", len, this.scanEventWithData(line.substring(pos), pos + 1));
+            }
+            else if (c == CHAR_COLON) {
+                accept("colon", end);
+            }
+            else {
+                // Lexical error
+                let text = line.substring(pos).match(/^\S*/)[0];
+                this.report(new ParseDiagnostic(lineNumber, pos + 1, pos + 1 + Math.max(text.length, 1), DiagnosticSeverity.ERROR, 
+                    `Unrecognized text '${text}'`, [], text));
+                return null;
+            }
+        }
+
+        tokens.push(new Tokenizr.Token("EOF", "", "", len, lineNumber, len + 1));
+        return tokens;
+    }
 
-            ctx.accept("event-with-data", md);
-        });        
-        // Colon (:)
-        this.lexer.rule(/\:/, (ctx, match) => {
-            ctx.accept("colon");
-        });        
+    /**
+     * Handle a line comment (//). The trace configuration appears in such comments.
+     */
+    private scanComment(comment : string, column : number) : void {
+        if (!this.traceConfigUnderConstruction && comment == '// {') {
+            this.traceConfigUnderConstruction = '{'; // Begin trace configuration
+            this.traceConfigStart = {line: this.lineNumber, column: column};
+        }
+        else if (this.traceConfigUnderConstruction && comment == '// }') {
+            this.traceConfigUnderConstruction += '}'; // End trace configuration
+            this.parseTraceConfiguration(this.traceConfigUnderConstruction);
+            this.traceConfigUnderConstruction = undefined
+        }
+        else if (this.traceConfigUnderConstruction) {
+            this.traceConfigUnderConstruction += comment.substring(2).trim();
+        }
     }
 
     /**
-     * Parse a line from a trace file
+     * Decode instance or note data (JSON object). Whether it's instance or note data is decided by the parser.
+     */
+    private scanOptionalData(str : string, column : number) : any {
+        try {
+            return JSON.parse(str);
+        }
+        catch (e) {
+            // No valid JSON data found 
+            this.reportInvalidJSON(str, column);
+            return undefined;
+        }        
+    }
+
+    /**
+     * Decode message data (any text enclosed in parentheses, optionally followed by JSON)
+     */
+    private scanEventWithData(str : string, column : number) : MessageData {
+        let i = str.lastIndexOf(')');
+        let md = new MessageData();
+        if (i == -1) {
+            md.paramData = str.substring(1); // Missing closing parenthesis
+            return md;
+        }
+
+        md.paramData = str.substring(1, i);
+        let json = str.substring(i + 1);
+        if (json.trim().length == 0)
+            return md; // No JSON data found after closing parenthesis
+
+        try {
+            let j = JSON.parse(json);
+            if (j.time1_send !== undefined)
+                md.time1_send = j.time1_send;
+            if (j.time2_receive !== undefined)
+                md.time2_receive = j.time2_receive;
+            if (j.time3_handle !== undefined)
+                md.time3_handle = j.time3_handle;
+            if (j.invoke !== undefined)
+                md.invoke = j.invoke;
+            if (j.reply !== undefined)
+                md.reply = j.reply;
+            copyAttributes(md, j, messageDataKeys);
+        }
+        catch (e) {
+            this.reportInvalidJSON(json, column + i + 1);
+        }
+        return md;
+    }
+
+    /**
+     * Parse a line from a trace file. Problems found in the line are reported as diagnostics 
+     * (see lineDiagnostics and diagnostics).
      * @param line a line from a trace file to scan
      * @param line number in the document
      * @returns an AST node or null in case of syntax error
-     * @throws an error if an internal error occurs (e.g. if the scanner could not be initialized)
      */
     public parseLine(line : string, lineNumber : number) : InstanceDecl | MessageOccurrance | Note | null {
 
-        this.lexer.input(line);        
+        this.lineNumber = lineNumber;
+        this.lineDiagnostics = [];
+
+        let tokens = this.scanLine(line, lineNumber);
+        if (!tokens)
+            return null; // Lexical error
+
+        if (tokens.length == 1)
+            return null; // Empty line (or only containing whitespace)
+
+        // Scanning successful, now parse the tokens. The first token tells which construct it can be.
+        let failure = new MatchFailure();
+        let astNode : InstanceDecl | MessageOccurrance | Note | null;
+        let first = tokens[0];
+        if (first.type == "keyword" && first.value == "instance")
+            astNode = isInstanceDecl(tokens, failure);
+        else if (first.type == "address")
+            astNode = isMessageOccurrance(tokens, failure);
+        else if (first.type == "keyword" && first.value == "note")
+            astNode = isNote(tokens, failure);
+        else
+            astNode = isInstanceDecl(tokens, failure) || isMessageOccurrance(tokens, failure) || isNote(tokens, failure);
+        
+        if (astNode?.data)
+            this.extractAttributes(astNode, tokens.find(t => t.isA('optional-data') || t.isA('event-with-data')));
+
+        if (!astNode) {
+            let token = tokens[failure.index];
+            let expected = failure.expected.map(kind => tokenKindToString(kind));
+            let found = token.isA("EOF") ? "end of line" : `'${token.text}'`;
+            this.report(new ParseDiagnostic(lineNumber, token.column, token.column + Math.max(token.text.length, 1), DiagnosticSeverity.ERROR, 
+                `Expected ${expected.join(" or ")} but found ${found}`, expected, token.text));
+        }
+        else if (failure.unconsumed !== undefined) {
+            let token = tokens[failure.unconsumed];
+            let eof = tokens[tokens.length - 1];
+            let text = line.substring(token.pos, eof.pos).trim();
+            this.report(new ParseDiagnostic(lineNumber, token.column, token.column + text.length, DiagnosticSeverity.WARNING, 
+                `Unexpected text '${text}' at end of line was ignored`, ["end of line"], text));
+        }
 
-        try {                
-            let tokens = this.lexer.tokens();
-            if (tokens.length == 1 && tokens[0].isA("EOF"))
-                return null; // Empty line (or only containing whitespace)
+        return astNode;
+    }
 
-            for (let token of tokens) {
-                token.line = lineNumber;
-            }
+    /**
+     * Register an extractor for a custom JSON attribute. When the attribute is present in the data of an instance, 
+     * message or note, the extractor is called with its value and the result is stored in the attributes of the data. 
+     * If the extractor returns undefined the attribute value is considered invalid; it's then removed and a warning is reported.
+     * @param owner the kind of AST node whose data may contain the attribute
+     * @param key name of the JSON attribute
+     * @param extractor function that validates and converts the JSON value of the attribute
+     */
+    public registerAttributeExtractor<T>(owner : AttributeOwner, key : string, extractor : AttributeExtractor<T>) : void {
+        this.attributeExtractors.get(owner).set(key, extractor);
+    }
+
+    /**
+     * Create a new parser with a copy of the trace configuration, timestamp settings and attribute extractors of this parser.
+     * The new parser has its own parsing state and diagnostics, so parsing lines with one parser doesn't affect the other.
+     */
+    public copy() : TraceParser {
+        let parser = new TraceParser();
+        if (this.rawTraceConfiguration !== undefined)
+            parser.rawTraceConfiguration = JSON.parse(JSON.stringify(this.rawTraceConfiguration));
+        if (this.traceConfiguration) {
+            parser.traceConfiguration = JSON.parse(JSON.stringify(this.traceConfiguration));
+            parser.timestamps = new TimestampNormalizer(parser.traceConfiguration);
+        }
+        for (let [owner, extractors] of this.attributeExtractors) {
+            parser.attributeExtractors.set(owner, new Map(extractors));
+        }
+        return parser;
+    }
+
+    /**
+     * Clear all diagnostics reported so far
+     */
+    public clearDiagnostics() : void {
+        this.diagnostics = [];
+        this.lineDiagnostics = [];
+    }
 
-            // Scanning successful, now parse the tokens
-            let instanceDecl = isInstanceDecl(tokens);
-            if (instanceDecl)
-                return instanceDecl;
+    private report(diagnostic : ParseDiagnostic) : void {
+        this.lineDiagnostics.push(diagnostic);
+        this.diagnostics.push(diagnostic);
+    }
 
-            let messageOccurrance = isMessageOccurrance(tokens);
-            if (messageOccurrance)
-                return messageOccurrance;
+    private extractAttributes(astNode : InstanceDecl | MessageOccurrance | Note, dataToken : Token) : void {
+        let owner : AttributeOwner = astNode instanceof InstanceDecl ? 'instance' : astNode instanceof MessageOccurrance ? 'message' : 'note';
+        let extractors = this.attributeExtractors.get(owner);
+        if (extractors.size == 0)
+            return;
+
+        let attributes = astNode.data.attributes;
+        for (let key of Object.keys(attributes)) {
+            let extractor = extractors.get(key);
+            if (!extractor)
+                continue;
+
+            let value = extractor(attributes[key]);
+            if (value !== undefined) {
+                attributes[key] = value;
+                continue;
+            }
 
-            let note = isNote(tokens);
-            if (note)
-                return note;
+            let text = JSON.stringify(attributes[key]);
+            delete attributes[key];
+            this.report(new ParseDiagnostic(this.lineNumber, dataToken.column, dataToken.column + dataToken.text.length, DiagnosticSeverity.WARNING, 
+                `Invalid value ${text} of ${owner} attribute "${key}" was ignored`, [], text));
+        }
+    }
 
-            return null;
+    private reportConfigurationProblem(severity : DiagnosticSeverity, message : string) : void {
+        this.report(new ParseDiagnostic(this.traceConfigStart.line, this.traceConfigStart.column, this.traceConfigStart.column + 4, severity, 
+            message, [], '// {'));
+    }
+
+    private parseTraceConfiguration(json : string) : void {
+        try {
+            this.rawTraceConfiguration = JSON.parse(json);
         }
         catch (e) {
-            // Syntax error
-            return null;
+            this.reportConfigurationProblem(DiagnosticSeverity.ERROR, `Invalid trace configuration JSON: ${e instanceof Error ? e.message : e}`);
+            return;
+        }
+        this.traceConfiguration = validateTraceConfiguration(this.rawTraceConfiguration, (message) => {
+            this.reportConfigurationProblem(DiagnosticSeverity.WARNING, message);
+        });
+        this.timestamps = new TimestampNormalizer(this.traceConfiguration);
+        if (this.traceConfiguration.trace.start_time !== undefined && this.timestamps.startTime === undefined)
+            this.reportConfigurationProblem(DiagnosticSeverity.WARNING, `Invalid trace start time "${this.traceConfiguration.trace.start_time}"`);
+    }
+
+    private reportInvalidJSON(text : string, column : number) : void {
+        let leadingSpace = text.length - text.trimStart().length;
+        text = text.trim();
+        this.report(new ParseDiagnostic(this.lineNumber, column + leadingSpace, column + leadingSpace + text.length, DiagnosticSeverity.WARNING, 
+            `Invalid JSON data '${text}' was ignored`, [], text));
+    }
+
+}
+
+export type TimestampMode = 'absolute' | 'relative';
+export type TimestampPrecision = 'milli' | 'micro' | 'nano';
+
+/**
+ * Timestamp settings of a trace configuration
+ */
+export interface TimestampConfiguration {
+    mode : TimestampMode; // Default is "relative"
+    precision : TimestampPrecision; // Default is "nano"
+    time1_send : boolean; // Time when sender places message into the message queue
+    time2_receive : boolean; // Time when controller delivers the message to the receiver
+    time3_handle : boolean; // Time when message was processed by the receiver
+}
+
+/**
+ * Information about the traced application
+ */
+export interface TraceInfo {
+    start_time? : string; // Time when the trace started (e.g. "2025-11-11 12:05:14.586791900")
+    application? : string; // Name of the traced application
+}
+
+/**
+ * The trace configuration that appears in comments at the beginning of a trace
+ */
+export interface TraceConfiguration {
+    timestamps : TimestampConfiguration;
+    trace : TraceInfo;
+}
+
+const timestampModes : TimestampMode[] = ['absolute', 'relative'];
+const timestampPrecisions : TimestampPrecision[] = ['milli', 'micro', 'nano'];
+
+/**
+ * Validate a trace configuration parsed from JSON and fill in default values for missing settings
+ * @param json the trace configuration parsed from JSON
+ * @param onProblem callback function called for each problem found (invalid settings are replaced by their default values)
+ * @returns a valid trace configuration
+ */
+export function validateTraceConfiguration(json : any, onProblem : (message : string) => void = () => {}) : TraceConfiguration {
+    let config : TraceConfiguration = {
+        timestamps: {
+            mode: 'relative',
+            precision: 'nano',
+            time1_send: false,
+            time2_receive: false,
+            time3_handle: false
+        },
+        trace: {}
+    };
+    if (!isObject(json)) {
+        onProblem('Trace configuration must be a JSON object');
+        return config;
+    }
+
+    if (json.timestamps !== undefined) {
+        if (!isObject(json.timestamps)) {
+            onProblem('Trace configuration property "timestamps" must be an object');
         }
+        else {
+            let timestamps = json.timestamps;
+            if (timestamps.mode !== undefined) {
+                if (timestampModes.includes(timestamps.mode))
+                    config.timestamps.mode = timestamps.mode;
+                else
+                    onProblem(`Invalid timestamp mode ${JSON.stringify(timestamps.mode)} (expected ${timestampModes.join(" or ")})`);
+            }
+            if (timestamps.precision !== undefined) {
+                if (timestampPrecisions.includes(timestamps.precision))
+                    config.timestamps.precision = timestamps.precision;
+                else
+                    onProblem(`Invalid timestamp precision ${JSON.stringify(timestamps.precision)} (expected ${timestampPrecisions.join(" or ")})`);
+            }
+            for (let flag of ['time1_send', 'time2_receive', 'time3_handle'] as const) {
+                if (timestamps[flag] === undefined)
+                    continue;
+                if (typeof timestamps[flag] === 'boolean')
+                    config.timestamps[flag] = timestamps[flag];
+                else
+                    onProblem(`Timestamp setting "${flag}" must be true or false`);
+            }
+        }
+    }
+
+    if (json.trace !== undefined) {
+        if (!isObject(json.trace)) {
+            onProblem('Trace configuration property "trace" must be an object');
+        }
+        else {
+            for (let prop of ['start_time', 'application'] as const) {
+                if (json.trace[prop] === undefined)
+                    continue;
+                if (typeof json.trace[prop] === 'string')
+                    config.trace[prop] = json.trace[prop];
+                else
+                    onProblem(`Trace setting "${prop}" must be a string`);
+            }
+        }
+    }
+
+    return config;
+}
+
+function isObject(value : any) : boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const nanosecondsPerUnit : Record<TimestampPrecision, number> = {
+    milli: 1e6,
+    micro: 1e3,
+    nano: 1
+};
+
+/**
+ * Parse the start time of a trace (e.g. "2025-11-11 12:05:14.586791900"). The start time is in local time.
+ * @param startTime the start_time of a trace configuration
+ * @returns the start time as nanoseconds since the Unix epoch, or undefined if the start time is invalid
+ */
+export function parseStartTime(startTime : string) : bigint | undefined {
+    let match = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,9}))?$/.exec(startTime.trim());
+    if (!match)
+        return undefined;
+
+    let [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(n => parseInt(n));
+    let date = new Date(year, month - 1, day, hours, minutes, seconds);
+    if (isNaN(date.getTime()))
+        return undefined;
+
+    let fraction = (match[7] ?? '').padEnd(9, '0');
+    return BigInt(date.getTime()) * BigInt(1e6) + BigInt(fraction);
+}
+
+/**
+ * Format a start time in the same way as the start_time of a trace configuration (the opposite of parseStartTime()).
+ * @param startTime nanoseconds since the Unix epoch
+ * @returns the start time in local time (e.g. "2025-11-11 12:05:14.586791900")
+ */
+export function formatStartTime(startTime : bigint) : string {
+    let ms = startTime / BigInt(1e6);
+    let fraction = startTime % BigInt(1e9);
+    if (fraction < 0)
+        fraction += BigInt(1e9);
+    let date = new Date(Number(ms));
+    let pad = (n : number) => n.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+        `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${fraction.toString().padStart(9, '0')}`;
+}
+
+/**
+ * Converts the raw timestamps of a trace (see MessageData and NoteData) into normalized timestamps, 
+ * according to the precision and mode of the trace configuration. 
+ * Note that in absolute mode raw timestamps are so big that they may not be exactly represented as numbers.
+ */
+export class TimestampNormalizer {
+    readonly mode : TimestampMode;
+    readonly precision : TimestampPrecision;
+    readonly startTime : bigint | undefined; // Start time of the trace as nanoseconds since the Unix epoch (if known)
+
+    constructor(config? : TraceConfiguration) {
+        this.mode = config?.timestamps.mode ?? 'relative';
+        this.precision = config?.timestamps.precision ?? 'nano';
+        this.startTime = config?.trace.start_time !== undefined ? parseStartTime(config.trace.start_time) : undefined;
+    }
+
+    /**
+     * Convert a raw timestamp to nanoseconds since the start of the trace. 
+     * In absolute mode with an unknown start time, nanoseconds since the Unix epoch are returned.
+     */
+    public toNanoseconds(raw : number) : number {
+        if (this.mode == 'absolute' && this.startTime !== undefined) 
+            return Number(this.rawToBigInt(raw) - this.startTime);
+
+        return raw * nanosecondsPerUnit[this.precision];
+    }
+
+    /**
+     * Convert a raw timestamp to nanoseconds since the Unix epoch
+     * @returns the epoch timestamp, or undefined if it cannot be computed (relative mode with an unknown start time)
+     */
+    public toEpochNanoseconds(raw : number) : bigint | undefined {
+        if (this.mode == 'absolute')
+            return this.rawToBigInt(raw);
+        if (this.startTime === undefined)
+            return undefined;
+        return this.startTime + this.rawToBigInt(raw);
+    }
+
+    /**
+     * Convert a raw timestamp to a wall-clock date (with millisecond precision)
+     * @returns the date, or undefined if it cannot be computed (relative mode with an unknown start time)
+     */
+    public toDate(raw : number) : Date | undefined {
+        let epochNs = this.toEpochNanoseconds(raw);
+        if (epochNs === undefined)
+            return undefined;
+        return new Date(Number(epochNs / BigInt(1e6)));
     }
 
+    private rawToBigInt(raw : number) : bigint {
+        return BigInt(Math.round(raw)) * BigInt(nanosecondsPerUnit[this.precision]);
+    }
+}
+
+/**
+ * Severity of a parse diagnostic
+ */
+export enum DiagnosticSeverity {
+    ERROR,
+    WARNING,
+    INFO
+}
+
+/**
+ * A problem found when parsing a line from a trace file
+ */
+export class ParseDiagnostic {
+    line : number; // Line number in the document
+    startColumn : number; // First column of the offending text (1-based)
+    endColumn : number; // Column after the offending text (1-based)
+    severity : DiagnosticSeverity;
+    message : string;
+    expected : string[]; // Token kinds that were expected at the location (if any)
+    text : string; // The offending text
+
+    constructor(line : number, startColumn : number, endColumn : number, severity : DiagnosticSeverity, message : string, expected : string[], text : string) {
+        this.line = line;
+        this.startColumn = startColumn;
+        this.endColumn = endColumn;
+        this.severity = severity;
+        this.message = message;
+        this.expected = expected;
+        this.text = text;
+    }
 }
 
 /**
@@ -203,24 +606,147 @@ export class InstanceDecl {
     structureExpr : Token[] = []; // Simplified list of tokens with semantic significance
     dynamicType : Token; // Dynamic instance type (omitted for built-in TargetRTS instances)
     data : InstanceData; // Data associated with the instance
+    range : SourceRange; // Range of the whole instance declaration
+    ranges : InstanceDeclRanges; // Ranges of the parts of the instance declaration
+
+    /**
+     * Return a plain-data representation of the instance declaration
+     */
+    public toJSON() : InstanceDeclJSON {
+        return {
+            kind: 'instance',
+            address: this.address.text,
+            structureExpr: this.structureExpr.map(token => typeof token.value === 'number' ? token.value : token.text),
+            dynamicType: this.dynamicType?.text,
+            data: this.data?.toJSON(),
+            range: copyRange(this.range),
+            ranges: copyRanges(this.ranges)
+        };
+    }
+
+    /**
+     * Create an instance declaration from its plain-data representation
+     */
+    public static fromJSON(json : InstanceDeclJSON) : InstanceDecl {
+        let instanceDecl = new InstanceDecl();
+        instanceDecl.address = createToken('address', json.address, json.ranges?.address);
+        instanceDecl.structureExpr = json.structureExpr.map((part, i) => 
+            createToken(typeof part === 'number' ? 'number' : 'name', part, json.ranges?.structureExprParts[i]));
+        if (json.dynamicType !== undefined)
+            instanceDecl.dynamicType = createToken('name', json.dynamicType, json.ranges?.dynamicType);
+        if (json.data !== undefined)
+            instanceDecl.data = InstanceData.fromJSON(json.data);
+        instanceDecl.range = copyRange(json.range);
+        instanceDecl.ranges = copyRanges(json.ranges);
+        return instanceDecl;
+    }
+}
+
+/**
+ * The kind of AST node that owns data with attributes
+ */
+export type AttributeOwner = 'instance' | 'message' | 'note';
+
+/**
+ * Validates and converts the JSON value of a custom attribute. Returns undefined if the value is invalid.
+ */
+export type AttributeExtractor<T> = (value : unknown) => T | undefined;
+
+/**
+ * Base class for data associated with AST nodes. JSON properties that the parser doesn't know about
+ * are kept as attributes.
+ */
+export class AttributeData {
+    attributes : {[key : string] : any} = {}; // JSON properties not represented by other fields
+
+    /**
+     * Return the value of an attribute (as converted by its extractor, if one was registered)
+     */
+    public getAttribute<T = unknown>(key : string) : T | undefined {
+        return this.attributes[key] as T | undefined;
+    }
+
+    protected attributesToJSON() : {[key : string] : any} {
+        return JSON.parse(JSON.stringify(this.attributes));
+    }
 }
 
 /**
  * Data associated with a message
  */
-export class MessageData {
+export class MessageData extends AttributeData {
     paramData : string = ''; // Parameter data for the message
+    time1_send : number | undefined = undefined;
     time2_receive : number | undefined = undefined;
     time3_handle : number | undefined = undefined;
     invoke : string | undefined = undefined; // Message address for a synchronous invoke
     reply : string | undefined = undefined; // Message address for a synchronous reply
+    private decoded : {paramData : string, value : ParamValue | undefined} | undefined = undefined;
+
+    /**
+     * The parameter data decoded into a typed value (decoded when first accessed).
+     * Undefined if the message has no parameter data.
+     */
+    public get paramValue() : ParamValue | undefined {
+        if (this.decoded?.paramData !== this.paramData)
+            this.decoded = { paramData: this.paramData, value: decodeParamData(this.paramData) };
+        return this.decoded.value;
+    }
+
+    public toJSON() : MessageDataJSON {
+        return {
+            paramData: this.paramData,
+            time1_send: this.time1_send,
+            time2_receive: this.time2_receive,
+            time3_handle: this.time3_handle,
+            invoke: this.invoke,
+            reply: this.reply,
+            attributes: this.attributesToJSON()
+        };
+    }
+
+    public static fromJSON(json : MessageDataJSON) : MessageData {
+        let data = new MessageData();
+        data.paramData = json.paramData;
+        data.time1_send = json.time1_send;
+        data.time2_receive = json.time2_receive;
+        data.time3_handle = json.time3_handle;
+        data.invoke = json.invoke;
+        data.reply = json.reply;
+        data.attributes = {...json.attributes};
+        return data;
+    }
 }
 
 /**
  * Data associated with an instance
  */
-export class InstanceData {
+export class InstanceData extends AttributeData {
     thread_name : string = '';
+
+    /**
+     * The thread name prefixed by the "application" attribute if there is one (e.g. in a trace created by
+     * mergeTraces()), since threads of different applications can have the same name. Empty if there is no
+     * thread name.
+     */
+    public qualifiedThreadName() : string {
+        let application = this.getAttribute('application');
+        return this.thread_name && typeof application === 'string' && application ? `${application}/${this.thread_name}` : this.thread_name;
+    }
+
+    public toJSON() : InstanceDataJSON {
+        return {
+            thread_name: this.thread_name,
+            attributes: this.attributesToJSON()
+        };
+    }
+
+    public static fromJSON(json : InstanceDataJSON) : InstanceData {
+        let data = new InstanceData();
+        data.thread_name = json.thread_name;
+        data.attributes = {...json.attributes};
+        return data;
+    }
 }
 
 
@@ -238,13 +764,72 @@ export class MessageOccurrance {
     receiverPortIndex: number;
     event: Token;
     data: MessageData; // Data associated with the message
+    range: SourceRange; // Range of the whole message occurrance
+    ranges: MessageOccurranceRanges; // Ranges of the parts of the message occurrance
+
+    /**
+     * Return a plain-data representation of the message occurrance
+     */
+    public toJSON() : MessageOccurranceJSON {
+        return {
+            kind: 'message',
+            sender: this.sender.text,
+            senderName: this.senderName,
+            senderPort: this.senderPort?.text,
+            senderPortIndex: this.senderPortIndex,
+            receiver: this.receiver.text,
+            receiverName: this.receiverName,
+            receiverPort: this.receiverPort?.text,
+            receiverPortIndex: this.receiverPortIndex,
+            event: this.event.text,
+            data: this.data.toJSON(),
+            range: copyRange(this.range),
+            ranges: copyRanges(this.ranges)
+        };
+    }
+
+    /**
+     * Create a message occurrance from its plain-data representation
+     */
+    public static fromJSON(json : MessageOccurranceJSON) : MessageOccurrance {
+        let messageOccurrance = new MessageOccurrance();
+        messageOccurrance.sender = createToken('address', json.sender, json.ranges?.sender);
+        messageOccurrance.senderName = json.senderName;
+        if (json.senderPort !== undefined)
+            messageOccurrance.senderPort = createToken('name', json.senderPort, json.ranges?.senderPort);
+        messageOccurrance.senderPortIndex = json.senderPortIndex;
+        messageOccurrance.receiver = createToken('address', json.receiver, json.ranges?.receiver);
+        messageOccurrance.receiverName = json.receiverName;
+        if (json.receiverPort !== undefined)
+            messageOccurrance.receiverPort = createToken('name', json.receiverPort, json.ranges?.receiverPort);
+        messageOccurrance.receiverPortIndex = json.receiverPortIndex;
+        messageOccurrance.event = createToken('name', json.event, json.ranges?.event);
+        messageOccurrance.data = MessageData.fromJSON(json.data);
+        messageOccurrance.range = copyRange(json.range);
+        messageOccurrance.ranges = copyRanges(json.ranges);
+        return messageOccurrance;
+    }
 }
 
 /**
  * Data associated with a note
  */
-export class NoteData {
+export class NoteData extends AttributeData {
     time : number | undefined = undefined; // Timestamp associated with the note
+
+    public toJSON() : NoteDataJSON {
+        return {
+            time: this.time,
+            attributes: this.attributesToJSON()
+        };
+    }
+
+    public static fromJSON(json : NoteDataJSON) : NoteData {
+        let data = new NoteData();
+        data.time = json.time;
+        data.attributes = {...json.attributes};
+        return data;
+    }
 }
 
 /**
@@ -254,6 +839,204 @@ export class Note {
     text: string;
     line?: number;
     data : NoteData; // Data associated with the note
+    range : SourceRange; // Range of the whole note
+    ranges : NoteRanges; // Ranges of the parts of the note
+
+    /**
+     * Return a plain-data representation of the note
+     */
+    public toJSON() : NoteJSON {
+        return {
+            kind: 'note',
+            text: this.text,
+            line: this.line,
+            data: this.data?.toJSON(),
+            range: copyRange(this.range),
+            ranges: copyRanges(this.ranges)
+        };
+    }
+
+    /**
+     * Create a note from its plain-data representation
+     */
+    public static fromJSON(json : NoteJSON) : Note {
+        let note = new Note();
+        note.text = json.text;
+        note.line = json.line;
+        if (json.data !== undefined)
+            note.data = NoteData.fromJSON(json.data);
+        note.range = copyRange(json.range);
+        note.ranges = copyRanges(json.ranges);
+        return note;
+    }
+}
+
+/**
+ * A range of text in a trace. Columns are 1-based and the end column is the column after the last character of the range.
+ */
+export interface SourceRange {
+    startLine : number;
+    startColumn : number;
+    endLine : number;
+    endColumn : number;
+}
+
+/**
+ * Ranges of the parts of an instance declaration
+ */
+export interface InstanceDeclRanges {
+    address : SourceRange;
+    structureExpr : SourceRange;
+    structureExprParts : SourceRange[]; // One range for each token of InstanceDecl.structureExpr
+    dynamicType? : SourceRange;
+    data? : SourceRange; // JSON data
+}
+
+/**
+ * Ranges of the parts of a message occurrance
+ */
+export interface MessageOccurranceRanges {
+    sender : SourceRange; // Address of sender
+    senderName : SourceRange;
+    senderPort? : SourceRange;
+    senderPortIndex? : SourceRange;
+    receiver : SourceRange; // Address of receiver
+    receiverName : SourceRange;
+    receiverPort? : SourceRange;
+    receiverPortIndex? : SourceRange;
+    event : SourceRange;
+    paramData : SourceRange; // Parameter data (excluding the parentheses)
+    data? : SourceRange; // JSON data
+}
+
+/**
+ * Ranges of the parts of a note
+ */
+export interface NoteRanges {
+    text : SourceRange; // Text of the note (including the quotes)
+    data? : SourceRange; // JSON data
+}
+
+export interface InstanceDataJSON {
+    thread_name : string;
+    attributes : {[key : string] : any};
+}
+
+export interface MessageDataJSON {
+    paramData : string;
+    time1_send? : number;
+    time2_receive? : number;
+    time3_handle? : number;
+    invoke? : string;
+    reply? : string;
+    attributes : {[key : string] : any};
+}
+
+export interface NoteDataJSON {
+    time? : number;
+    attributes : {[key : string] : any};
+}
+
+/**
+ * Plain-data representation of an InstanceDecl
+ */
+export interface InstanceDeclJSON {
+    kind : 'instance';
+    address : string;
+    structureExpr : (string | number)[]; // Names and indices
+    dynamicType? : string;
+    data? : InstanceDataJSON;
+    range? : SourceRange;
+    ranges? : InstanceDeclRanges;
+}
+
+/**
+ * Plain-data representation of a MessageOccurrance
+ */
+export interface MessageOccurranceJSON {
+    kind : 'message';
+    sender : string;
+    senderName : string;
+    senderPort? : string;
+    senderPortIndex? : number;
+    receiver : string;
+    receiverName : string;
+    receiverPort? : string;
+    receiverPortIndex? : number;
+    event : string;
+    data : MessageDataJSON;
+    range? : SourceRange;
+    ranges? : MessageOccurranceRanges;
+}
+
+/**
+ * Plain-data representation of a Note
+ */
+export interface NoteJSON {
+    kind : 'note';
+    text : string;
+    line? : number;
+    data? : NoteDataJSON;
+    range? : SourceRange;
+    ranges? : NoteRanges;
+}
+
+/**
+ * Plain-data representation of any AST node
+ */
+export type TraceNodeJSON = InstanceDeclJSON | MessageOccurranceJSON | NoteJSON;
+
+/**
+ * Create an AST node from its plain-data representation
+ */
+export function traceNodeFromJSON(json : TraceNodeJSON) : InstanceDecl | MessageOccurrance | Note {
+    switch (json.kind) {
+        case 'instance': return InstanceDecl.fromJSON(json);
+        case 'message': return MessageOccurrance.fromJSON(json);
+        case 'note': return Note.fromJSON(json);
+    }
+}
+
+/**
+ * Return the range of text covered by a token, or a part of it
+ * @param token the token
+ * @param start offset of the first character of the range within the token text (default 0)
+ * @param end offset after the last character of the range within the token text (default the token text length)
+ */
+function tokenRange(token : Token, start : number = 0, end : number = token.text.length) : SourceRange {
+    return {
+        startLine: token.line,
+        startColumn: token.column + start,
+        endLine: token.line,
+        endColumn: token.column + end
+    };
+}
+
+/**
+ * Return the range of text from the start of one token to the end of another (excluding trailing whitespace)
+ */
+function tokensRange(first : Token, last : Token) : SourceRange {
+    return {
+        startLine: first.line,
+        startColumn: first.column,
+        endLine: last.line,
+        endColumn: last.column + last.text.trimEnd().length
+    };
+}
+
+function copyRange(range : SourceRange | undefined) : SourceRange | undefined {
+    return range ? {...range} : undefined;
+}
+
+function copyRanges<T>(ranges : T | undefined) : T | undefined {
+    return ranges ? JSON.parse(JSON.stringify(ranges)) : undefined;
+}
+
+/**
+ * Create a token for an AST node created from its plain-data representation
+ */
+function createToken(type : string, value : string | number, range? : SourceRange) : Token {
+    return new Tokenizr.Token(type, value, value.toString(), range ? range.startColumn - 1 : 0, range?.startLine ?? 0, range?.startColumn ?? 0);
 }
 
 /**
@@ -286,6 +1069,14 @@ export class TraceParserUtils {
         return (str == "specials" && astNode.dynamicType.text == "RTTimerActor");
     }
 
+    /**
+     * Answers if the instance is the external instance (which sends messages on external ports)
+     */
+    public static isExternalInstance(astNode : InstanceDecl) : boolean {
+        let str = TraceParserUtils.structureExprToString(astNode.structureExpr);
+        return (str == "external" && astNode.dynamicType?.text == "External");
+    }
+
     /**
      * Return a string representation of a structure expression 
      */
@@ -305,23 +1096,104 @@ export class TraceParserUtils {
     }
 }
 
+const CHAR_TAB = 9, CHAR_LF = 10, CHAR_CR = 13, CHAR_SPACE = 32, CHAR_QUOTE = 34, CHAR_OPEN_PAREN = 40, CHAR_MINUS = 45, 
+    CHAR_DOT = 46, CHAR_SLASH = 47, CHAR_0 = 48, CHAR_9 = 57, CHAR_COLON = 58, CHAR_GREATER = 62, CHAR_A = 65, CHAR_F = 70, CHAR_Z = 90, 
+    CHAR_OPEN_SQUARE = 91, CHAR_BACKSLASH = 92, CHAR_CLOSE_SQUARE = 93, CHAR_UNDERSCORE = 95, CHAR_a = 97, CHAR_f = 102, CHAR_i = 105, 
+    CHAR_n = 110, CHAR_x = 120, CHAR_z = 122, CHAR_OPEN_CURLY = 123;
+
+function isWhitespace(c : number) : boolean {
+    return c == CHAR_SPACE || c == CHAR_TAB || c == CHAR_CR || c == CHAR_LF;
+}
+
+function isDigit(c : number) : boolean {
+    return c >= CHAR_0 && c <= CHAR_9;
+}
+
+function isHexDigit(c : number) : boolean {
+    return isDigit(c) || (c >= CHAR_a && c <= CHAR_f) || (c >= CHAR_A && c <= CHAR_F);
+}
+
+function isNameStart(c : number) : boolean {
+    return (c >= CHAR_a && c <= CHAR_z) || (c >= CHAR_A && c <= CHAR_Z) || c == CHAR_UNDERSCORE;
+}
+
+function isNamePart(c : number) : boolean {
+    return isNameStart(c) || isDigit(c);
+}
+
+/**
+ * Scan a string literal that starts at a position of a line
+ * @returns the position after the closing quote, or -1 if there is no valid string literal at the position
+ */
+function scanString(line : string, pos : number) : number {
+    for (let i = pos + 1; i < line.length; i++) {
+        let c = line.charCodeAt(i);
+        if (c == CHAR_QUOTE)
+            return i + 1;
+        if (c == CHAR_CR || c == CHAR_LF)
+            return -1;
+        if (c == CHAR_BACKSLASH) {
+            // Any character except line terminators can be escaped
+            let next = line.charCodeAt(++i);
+            if (isNaN(next) || next == CHAR_CR || next == CHAR_LF || next == 0x2028 || next == 0x2029)
+                return -1;
+        }
+    }
+    return -1; // Missing closing quote
+}
+
+/**
+ * Records the furthest token position where matching failed, and the token kinds that were expected there.
+ * Used for reporting a syntax error when no construct could be matched.
+ */
+class MatchFailure {
+    index : number = 0;
+    expected : string[] = [];
+    unconsumed : number | undefined = undefined; // Index of the first token left unconsumed by a matched construct
+
+    record(index : number, tokenKind : string) : void {
+        if (index > this.index) {
+            this.index = index;
+            this.expected = [tokenKind];
+        }
+        else if (index == this.index && !this.expected.includes(tokenKind)) {
+            this.expected.push(tokenKind);
+        }
+    }
+}
+
+/**
+ * Return a readable representation of a token kind as used by matchTokens
+ */
+function tokenKindToString(tokenKind : string) : string {
+    if (tokenKind.startsWith('kw:'))
+        return tokenKind.substring(3);
+    if (tokenKind == 'EOF')
+        return 'end of line';
+    return tokenKind;
+}
+
 /**
  * Attempt to match a sequence of tokens.
  * @param i index of start token (passed by reference)
  * @param tokens token sequence to match against
  * @param tokenKinds expected tokens (prefix a token with "kw:" if keyword)
  * @param onMatch callback function called if tokens were matched (if it returns true, i is advanced)
+ * @param failure if provided, records where matching failed
  * @returns true if tokens were successfully matched, false otherwise
  */
-function matchTokens(i : {value : number}, tokens : Token[], tokenKinds : string[], onMatch : (tokens : Token[]) => boolean | void) : boolean {
-    if (tokens.length < i.value + tokenKinds.length) 
-        return false;
-
+function matchTokens(i : {value : number}, tokens : Token[], tokenKinds : string[], onMatch : (tokens : Token[]) => boolean | void, failure? : MatchFailure) : boolean {
     for (let j = 0; j < tokenKinds.length; j++) {
+        if (i.value + j >= tokens.length) {
+            failure?.record(tokens.length - 1, tokenKinds[j]); // Reached end of tokens
+            return false;
+        }
+
         let isKeyword = tokenKinds[j].startsWith('kw:');
         if (!isKeyword && tokens[i.value + j].isA(tokenKinds[j])) continue;
         if (isKeyword && tokens[i.value + j].isA('keyword', tokenKinds[j].substring(3))) continue;
             
+        failure?.record(i.value + j, tokenKinds[j]);
         return false; // Token did not match    
     }
 
@@ -336,135 +1208,254 @@ function matchTokens(i : {value : number}, tokens : Token[], tokenKinds : string
 /**
  * If the tokens represent an instance declaration return an InstanceDecl, otherwise null
  * @param tokens 
+ * @param failure if provided, records where matching failed
  * @returns InstanceDecl or null
  */
-function isInstanceDecl(tokens : Token[]) : InstanceDecl | null {
+function isInstanceDecl(tokens : Token[], failure? : MatchFailure) : InstanceDecl | null {
     let instanceDecl = new InstanceDecl();
     let index = {"value" : 0};
 
+    let ranges : Partial<InstanceDeclRanges> = {structureExprParts: []};
+    let lastExprToken : Token;
+
     // instance keyword and address (mandatory)
     if (! matchTokens(index, tokens, ['kw:instance', 'address'], (matchedToken) => {
         instanceDecl.address = matchedToken[1];
-    })) 
+        ranges.address = tokenRange(matchedToken[1]);
+    }, failure)) 
         return null; // syntax error        
             
     // Expect here any number of dot-separated names optionally followed by an index specifier.
-    // The sequence stops with a colon or EOF.            
+    // The sequence stops with a colon, instance data or EOF.            
     for (; index.value < tokens.length; ) {
         if (! matchTokens(index, tokens, ['name'], (matchedToken) => {
             instanceDecl.structureExpr.push(tokens[index.value]);
-        })) 
+            ranges.structureExprParts.push(tokenRange(matchedToken[0]));
+            lastExprToken = matchedToken[0];
+        }, failure)) 
             return null; // syntax error 
 
         // dot (optional)
-        if (matchTokens(index, tokens, ['dot'], (matchedToken) => {}))
+        if (matchTokens(index, tokens, ['dot'], (matchedToken) => {}, failure))
             continue; // Dot must be followed by a name
 
         // [index] (optional)
         matchTokens(index, tokens, ['open-square-bracket', 'number', 'close-square-bracket'], (matchedToken) => {
             instanceDecl.structureExpr.push(matchedToken[1]);
-        });
+            ranges.structureExprParts.push(tokenRange(matchedToken[1]));
+            lastExprToken = matchedToken[2];
+        }, failure);
             
         // dot (optional)
-        if (matchTokens(index, tokens, ['dot'], (matchedToken) => {}))
+        if (matchTokens(index, tokens, ['dot'], (matchedToken) => {}, failure))
             continue; // Dot must be followed by a name
 
         if (matchTokens(index, tokens, ['colon'], (matchedToken) => {
                 return false; // do not consume the token
-            }) ||
-            matchTokens(index, tokens, ['EOF'], (matchedToken) => {}))
+            }, failure) ||
+            matchTokens(index, tokens, ['optional-data'], (matchedToken) => {
+                return false; // do not consume the token
+            }, failure) ||
+            matchTokens(index, tokens, ['EOF'], (matchedToken) => {}, failure))
             break; // end of structure expression        
     }
 
+    ranges.structureExpr = tokensRange(instanceDecl.structureExpr[0], lastExprToken);
+
     // : dynamic type (optional)
     matchTokens(index, tokens, ['colon', 'name'], (matchedToken) => {
         instanceDecl.dynamicType = matchedToken[1];
-    });
+        ranges.dynamicType = tokenRange(matchedToken[1]);
+    }, failure);
 
     // instance data (optional)
     matchTokens(index, tokens, ['optional-data'], (matchedToken) => {
-        instanceDecl.data = matchedToken[0].value as InstanceData;
-    });
+        instanceDecl.data = createInstanceData(matchedToken[0].value);
+        ranges.data = dataRange(matchedToken[0]);
+    }, failure);
 
+    checkAllConsumed(index, tokens, failure);
+    instanceDecl.range = consumedRange(index, tokens);
+    instanceDecl.ranges = ranges as InstanceDeclRanges;
     return instanceDecl;    
 }
 
 /**
  * If the tokens represent a message occurrence return a MessageOccurrance, otherwise null
  * @param tokens 
+ * @param failure if provided, records where matching failed
  * @returns MessageOccurrance or null
  */
-function isMessageOccurrance(tokens : Token[]) : MessageOccurrance | null {    
+function isMessageOccurrance(tokens : Token[], failure? : MatchFailure) : MessageOccurrance | null {    
     let messageOccurrance = new MessageOccurrance();
 
+    let ranges : Partial<MessageOccurranceRanges> = {};
+
     let index = {"value" : 0};
     // sender address and name (mandatory)
     if (! matchTokens(index, tokens, ['address', 'name'], (matchedToken) => {
         messageOccurrance.sender = matchedToken[0];
         messageOccurrance.senderName = matchedToken[1].text;
-    })) 
+        ranges.sender = tokenRange(matchedToken[0]);
+        ranges.senderName = tokenRange(matchedToken[1]);
+    }, failure)) 
         return null; // syntax error
 
     // sender port (optional)
     matchTokens(index, tokens, ['dot', 'name'], (matchedToken) => {
         messageOccurrance.senderPort = matchedToken[1];
-    });    
+        ranges.senderPort = tokenRange(matchedToken[1]);
+    }, failure);    
 
     // sender port index (optional)
     matchTokens(index, tokens, ['open-square-bracket', 'number', 'close-square-bracket'], (matchedToken) => {
         messageOccurrance.senderPortIndex = matchedToken[1].value as number;
-    });    
+        ranges.senderPortIndex = tokenRange(matchedToken[1]);
+    }, failure);    
 
     // -> receiver address and name (mandatory)
     if (! matchTokens(index, tokens, ['arrow', 'address', 'name'], (matchedToken) => {
         messageOccurrance.receiver = matchedToken[1];
         messageOccurrance.receiverName = matchedToken[2].text;
-    })) 
+        ranges.receiver = tokenRange(matchedToken[1]);
+        ranges.receiverName = tokenRange(matchedToken[2]);
+    }, failure)) 
         return null; // syntax error
 
     // receiver port (optional)
     matchTokens(index, tokens, ['dot', 'name'], (matchedToken) => {
         messageOccurrance.receiverPort = matchedToken[1];
-    });    
+        ranges.receiverPort = tokenRange(matchedToken[1]);
+    }, failure);    
 
     // receiver port index (optional)
     matchTokens(index, tokens, ['open-square-bracket', 'number', 'close-square-bracket'], (matchedToken) => {
         messageOccurrance.receiverPortIndex = matchedToken[1].value as number;
-    }); 
+        ranges.receiverPortIndex = tokenRange(matchedToken[1]);
+    }, failure); 
 
     // : event with data (mandatory)
     if (! matchTokens(index, tokens, ['colon', 'name', 'event-with-data'], (matchedToken) => {
         messageOccurrance.event = matchedToken[1];
         messageOccurrance.data = matchedToken[2].value as MessageData;
-    })) 
+        ranges.event = tokenRange(matchedToken[1]);
+
+        // Parameter data is enclosed in parentheses, and optionally followed by JSON data
+        let text = matchedToken[2].text;
+        let i = text.lastIndexOf(')');
+        ranges.paramData = tokenRange(matchedToken[2], 1, i != -1 ? i : text.trimEnd().length);
+        if (i != -1 && text.substring(i + 1).trim().length > 0)
+            ranges.data = dataRange(matchedToken[2], i + 1);
+    }, failure)) 
         return null; // syntax error
 
+    checkAllConsumed(index, tokens, failure);
+    messageOccurrance.range = consumedRange(index, tokens);
+    messageOccurrance.ranges = ranges as MessageOccurranceRanges;
     return messageOccurrance;    
 }
 
 /**
  * If the tokens represent a note return a Note, otherwise null
  * @param tokens 
+ * @param failure if provided, records where matching failed
  * @returns Note or null
  */
-function isNote(tokens : Token[]) : Note | null {
+function isNote(tokens : Token[], failure? : MatchFailure) : Note | null {
     let note = new Note();
     let index = {"value" : 0};
     // sender address and name (mandatory)
+    let ranges : Partial<NoteRanges> = {};
     if (! matchTokens(index, tokens, ['kw:note', 'string'], (matchedToken) => {
         note.text = matchedToken[1].value as string;
         note.line = matchedToken[0].line;        
-    })) 
+        ranges.text = tokenRange(matchedToken[1]);
+    }, failure)) 
         return null; // syntax error
 
     // note data (optional)
     matchTokens(index, tokens, ['optional-data'], (matchedToken) => {
-        note.data = matchedToken[0].value as NoteData;
-    });
+        note.data = createNoteData(matchedToken[0].value);
+        ranges.data = dataRange(matchedToken[0]);
+    }, failure);
 
+    checkAllConsumed(index, tokens, failure);
+    note.range = consumedRange(index, tokens);
+    note.ranges = ranges as NoteRanges;
     return note;    
 }
 
+const instanceDataKeys = ['thread_name'];
+const messageDataKeys = ['time1_send', 'time2_receive', 'time3_handle', 'invoke', 'reply'];
+const noteDataKeys = ['time'];
+
+/**
+ * Copy JSON properties that are not known keys to the attributes of the data
+ */
+function copyAttributes(data : AttributeData, json : any, knownKeys : string[]) : void {
+    for (let key of Object.keys(json)) {
+        if (!knownKeys.includes(key))
+            data.attributes[key] = json[key];
+    }
+}
+
+/**
+ * Create instance data from a parsed JSON object (if any)
+ */
+function createInstanceData(json : any) : InstanceData | undefined {
+    if (!isObject(json))
+        return undefined;
+
+    let data = new InstanceData();
+    if (json.thread_name !== undefined)
+        data.thread_name = json.thread_name;
+    copyAttributes(data, json, instanceDataKeys);
+    return data;
+}
+
+/**
+ * Create note data from a parsed JSON object (if any)
+ */
+function createNoteData(json : any) : NoteData | undefined {
+    if (!isObject(json))
+        return undefined;
+
+    let data = new NoteData();
+    if (json.time !== undefined)
+        data.time = json.time;
+    copyAttributes(data, json, noteDataKeys);
+    return data;
+}
+
+/**
+ * Return the range of the JSON data at the end of a token (excluding surrounding whitespace)
+ * @param token token ending with JSON data
+ * @param start offset where the JSON data starts within the token text (default 0)
+ */
+function dataRange(token : Token, start : number = 0) : SourceRange {
+    let json = token.text.substring(start);
+    let leadingSpace = json.length - json.trimStart().length;
+    return tokenRange(token, start + leadingSpace, token.text.trimEnd().length);
+}
+
+/**
+ * Return the range covered by the tokens consumed so far (excluding EOF)
+ */
+function consumedRange(i : {value : number}, tokens : Token[]) : SourceRange {
+    let last = Math.min(i.value, tokens.length) - 1;
+    if (tokens[last].isA('EOF'))
+        last--;
+    return tokensRange(tokens[0], tokens[last]);
+}
+
+/**
+ * Record the first token (if any) that was left unconsumed after a construct was matched
+ */
+function checkAllConsumed(i : {value : number}, tokens : Token[], failure? : MatchFailure) : void {
+    if (failure && i.value < tokens.length && !tokens[i.value].isA('EOF'))
+        failure.unconsumed = i.value;
+}
+
 ////////////////////////////////////////////////////////////////////////////////////////////////////////////
 
 /**
@@ -472,43 +1463,140 @@ function isNote(tokens : Token[]) : Note | null {
  */
 export class LineAndNode {
     line: string;
-    astNode: InstanceDecl | MessageOccurrance | Note;
+    astNode: InstanceDecl | MessageOccurrance | Note | null; // null for lines that are not AST nodes (e.g. comments)
 
-    constructor(line: string, astNode: InstanceDecl | MessageOccurrance | Note) {
+    constructor(line: string, astNode: InstanceDecl | MessageOccurrance | Note | null) {
         this.line = line;
         this.astNode = astNode;
     }
 }
 
-class MessageSortData {
-    time: number;
-    msg: string;   
-    msgOccurrance: MessageOccurrance; 
+export enum SortCriteria {
+    RECEIVE_TIME,
+    HANDLE_TIME,
+    SEND_TIME
+}
+
+/**
+ * What to do with messages that lack the timestamp of the first sort criterion
+ */
+export enum UntimedMessagePolicy {
+    KEEP_POSITION, // Keep the message right after the message that preceded it in the trace
+    APPEND, // Place the message last (untimed messages keep their relative order)
+    DROP // Remove the message from the sorted trace
+}
+
+/**
+ * A message together with the lines that precede it in the trace (and which are not messages), 
+ * and the values used for sorting the message.
+ */
+export interface TraceSortGroup<T> {
+    keys : (number | null)[]; // One timestamp per sort criterion (null if missing)
+    index : number; // Position of the message in the trace
+    items : T[]; // The lines of the group with the message last
+}
+
+/**
+ * Compare two groups according to their sort keys, and their position in the trace if the sort keys are equal.
+ * A missing timestamp is greater than all present timestamps.
+ */
+export function compareTraceSortGroups<T>(a : TraceSortGroup<T>, b : TraceSortGroup<T>) : number {
+    for (let i = 0; i < a.keys.length; i++) {
+        let ka = a.keys[i], kb = b.keys[i];
+        if (ka === kb)
+            continue;
+        if (ka === null)
+            return 1;
+        if (kb === null)
+            return -1;
+        return ka - kb;
+    }
+    return a.index - b.index;
+}
 
-    constructor(time: number, msgOccurrance: MessageOccurrance, msg: string) {
-        this.time = time;
-        this.msgOccurrance = msgOccurrance;
-        this.msg = msg;                
+/**
+ * Splits the lines of a trace into groups that can be sorted. Lines that appear before the first message 
+ * (such as the trace configuration) form a header that stays first. Other lines that are not messages are 
+ * kept together with the message that follows them, and lines after the last message stay last.
+ */
+export class TraceSortGrouper<T> {
+    private criteria : SortCriteria[];
+    private untimedMessages : UntimedMessagePolicy;
+    private pending : T[] = [];
+    private previousKeys : (number | null)[] | undefined = undefined;
+    private messageCount = 0;
+    readonly header : T[] = [];
+
+    constructor(criteria : SortCriteria[], untimedMessages : UntimedMessagePolicy) {
+        this.criteria = criteria;
+        this.untimedMessages = untimedMessages;
     }
-};
 
-export enum SortCriteria {
-    RECEIVE_TIME,
-    HANDLE_TIME
+    /**
+     * Add the next line of the trace.
+     * @param item the line (or an object representing it)
+     * @param astNode the AST node of the line (or null if it has none)
+     * @returns a group if the line was a message that completed it
+     */
+    public add(item : T, astNode : TraceNode | null) : TraceSortGroup<T> | undefined {
+        if (!(astNode instanceof MessageOccurrance)) {
+            (this.messageCount == 0 ? this.header : this.pending).push(item);
+            return undefined;
+        }
+
+        let keys = this.criteria.map(criteria => sortKey(astNode, criteria) ?? null);
+        if (keys[0] === null) {
+            if (this.untimedMessages == UntimedMessagePolicy.DROP)
+                return undefined; // Preceding lines stay with the next message
+            if (this.untimedMessages == UntimedMessagePolicy.KEEP_POSITION)
+                keys = this.previousKeys ?? keys.map(() => -Number.MAX_VALUE);
+        }
+        else {
+            this.previousKeys = keys;
+        }
+
+        this.pending.push(item);
+        let group = { keys, index: this.messageCount++, items: this.pending };
+        this.pending = [];
+        return group;
+    }
+
+    /**
+     * The lines that follow the last message added so far
+     */
+    get trailing() : T[] {
+        return this.pending;
+    }
+}
+
+function sortKey(msg : MessageOccurrance, criteria : SortCriteria) : number | undefined {
+    switch (criteria) {
+        case SortCriteria.RECEIVE_TIME: return msg.data.time2_receive;
+        case SortCriteria.HANDLE_TIME: return msg.data.time3_handle;
+        case SortCriteria.SEND_TIME: return msg.data.time1_send;
+    }
 }
 
 /**
- * Sort a trace's messages according to some criteria
+ * Sort a trace's messages according to some criteria. Messages are sorted on the first criterion, 
+ * then on the next criterion for messages with equal timestamps and so on. The sort is stable, i.e.
+ * messages that are equal according to all criteria keep their order from the trace.
+ * Lines that are not messages are sorted together with the message that follows them (see TraceSortGrouper).
  */
 export class TraceSorter {
-
-    private messages: MessageSortData[] = [];
-    private lines : string[] = [];
-    private sortCriteria : SortCriteria;
+    private grouper : TraceSortGrouper<LineAndNode>;
+    private groups : TraceSortGroup<LineAndNode>[] = [];
     private traceParser : TraceParser;
 
-    constructor(sortCriteria : SortCriteria, traceParser : TraceParser = new TraceParser()) {
-        this.sortCriteria = sortCriteria;
+    /**
+     * Construct the TraceSorter.
+     * @param sortCriteria a criterion, or multiple criteria in priority order
+     * @param traceParser the parser to use for parsing lines
+     * @param untimedMessages what to do with messages that lack the timestamp of the first criterion
+     */
+    constructor(sortCriteria : SortCriteria | SortCriteria[], traceParser : TraceParser = new TraceParser(), 
+        untimedMessages : UntimedMessagePolicy = UntimedMessagePolicy.KEEP_POSITION) {
+        this.grouper = new TraceSortGrouper(Array.isArray(sortCriteria) ? sortCriteria : [sortCriteria], untimedMessages);
         this.traceParser = traceParser;
     }
 
@@ -517,59 +1605,388 @@ export class TraceSorter {
      * @param line a line from a trace file
      * @param line line number for the line
      * @returns an AST node or null in case of syntax error
-     * @throws an error if an internal error occurs (e.g. if the scanner could not be initialized)
      */
     public parseLineForSorting(line : string, lineNumber : number) : InstanceDecl | MessageOccurrance | Note | null {
-        this.lines.push(line);
         let astNode = this.traceParser.parseLine(line, lineNumber);
-        if (astNode instanceof MessageOccurrance) {
-            if (this.sortCriteria == SortCriteria.RECEIVE_TIME && astNode.data.time2_receive !== undefined) {
-                this.messages.push( new MessageSortData(astNode.data.time2_receive, astNode, line) );
-            }
-            else if (this.sortCriteria == SortCriteria.HANDLE_TIME && astNode.data.time3_handle !== undefined) {
-                this.messages.push( new MessageSortData(astNode.data.time3_handle, astNode, line) );
-            }
-            
-        }
-        return astNode
+        this.addLine(line, astNode);
+        return astNode;
+    }
+
+    /**
+     * Store a line that has already been parsed for later sorting
+     * @param line a line from a trace file
+     * @param astNode the AST node of the line (or null if it has none)
+     */
+    public addLine(line : string, astNode : TraceNode | null) : void {
+        let group = this.grouper.add(new LineAndNode(line, astNode), astNode);
+        if (group)
+            this.groups.push(group);
     }
 
     /**
-     * Sort stored messages by the specified criteria and then return all stored lines in that order
-     * @returns 
+     * Sort stored messages by the specified criteria and then return all stored lines in that order.
+     * The sorter can continue to be used for adding more lines afterwards.
      */
     public getSortedMessages() : LineAndNode[] {
-        if (this.messages.length == 0) {            
-            return [];
+        this.groups.sort(compareTraceSortGroups);
+        let result = [...this.grouper.header];
+        for (let group of this.groups) {
+            result.push(...group.items);
         }
-        
-        this.messages.sort( (a, b) => {
-            return a.time - b.time;            
-        });
+        result.push(...this.grouper.trailing);
+        return result;
+    }
+}
+////////////////////////////////////////////////////////////////////////////////////////////////////////////
 
-        let result: LineAndNode[] = [];
-        let startIndex = 0;
-        let i = 0;
-        for (const line of this.lines) {        
-            let astNode = this.traceParser.parseLine(line, ++i);
-            if (astNode instanceof MessageOccurrance) {
-                
-                let index = startIndex;
-                for (; index < this.messages.length; index++) {
-                    let msg = this.messages[index];
-                    if (msg.msg === line) {
-                        let messages : LineAndNode[] = this.messages.slice(startIndex, index + 1).map(m => {return new LineAndNode(m.msg, m.msgOccurrance) }); 
-                        result.push(...messages);
-                        startIndex = index + 1;
-                        break;
-                    }                    
-                }
-            }
-            else {
-                result.push(new LineAndNode(line, astNode));
+/**
+ * An AST node produced by the TraceParser
+ */
+export type TraceNode = InstanceDecl | MessageOccurrance | Note;
+
+/**
+ * Input accepted when parsing a whole trace. It can be the full text of a trace file, a Node readable stream 
+ * (which provides the text in chunks) or an iterable (sync or async) where each element is a line.
+ */
+export type TraceInput = string | ReadableTextStream | Iterable<string> | AsyncIterable<string>;
+
+/**
+ * A readable stream (e.g. created by fs.createReadStream) that provides the text of a trace in chunks
+ */
+export interface ReadableTextStream extends AsyncIterable<string | Uint8Array> {
+    pipe : Function;
+}
+
+/**
+ * Normalize the text of an address so that addresses that only differ in case or in the number of 
+ * leading zeros compare equal (e.g. 0x00022CC6833390 and 0x22cc6833390).
+ */
+export function normalizeAddress(address : string) : string {
+    let text = address.toLowerCase();
+    if (!text.startsWith('0x'))
+        return text;
+    let digits = text.substring(2).replace(/^0+/, '');
+    return '0x' + (digits.length > 0 ? digits : '0');
+}
+
+/**
+ * A message where an instance was either the sender or the receiver
+ */
+export interface InstanceActivity {
+    line : number; // Line of the message
+    time : number | undefined; // Timestamp (as found in the trace) when the instance sent or received the message
+    message : MessageOccurrance;
+}
+
+/**
+ * The lifetime of an instance, which starts when it is declared and ends when another instance is 
+ * declared at the same address.
+ */
+export class InstanceLifetime {
+    readonly instance : InstanceDecl;
+    readonly startLine : number; // Line of the instance declaration
+    readonly startTime : number | undefined; // Latest timestamp seen before the instance declaration
+    endLine : number | undefined = undefined; // Line of the next instance declaration at the same address (if any)
+    firstActivity : InstanceActivity | undefined = undefined;
+    lastActivity : InstanceActivity | undefined = undefined;
+    messageCount : number = 0; // Number of messages sent or received by the instance
+
+    constructor(instance : InstanceDecl, startLine : number, startTime : number | undefined) {
+        this.instance = instance;
+        this.startLine = startLine;
+        this.startTime = startTime;
+    }
+}
+
+/**
+ * Keeps track of all instances of a trace. Since an address can be reused (for example when an optional 
+ * capsule instance is destroyed and a new one is incarnated) an address is resolved to an instance at a
+ * given line or time. Addresses are compared after normalization (see normalizeAddress()).
+ * Timestamps are compared as found in the trace, i.e. without conversion to a specific unit.
+ */
+export class InstanceRegistry {
+    private lifetimes = new Map<string, InstanceLifetime[]>(); // Lifetimes keyed by normalized address, in line order
+    private latestTime : number | undefined = undefined;
+
+    /**
+     * Add an instance declaration.
+     * @param instance the declared instance
+     * @param line the line of the declaration (by default the line of its source range)
+     */
+    public addInstance(instance : InstanceDecl, line : number = instance.range?.startLine ?? instance.address.line) : InstanceLifetime {
+        let address = normalizeAddress(instance.address.text);
+        let lifetimes = this.lifetimes.get(address);
+        if (!lifetimes) {
+            lifetimes = [];
+            this.lifetimes.set(address, lifetimes);
+        }
+        let lifetime = new InstanceLifetime(instance, line, this.latestTime);
+        let i = lifetimes.length;
+        while (i > 0 && lifetimes[i - 1].startLine > line)
+            i--;
+        lifetimes.splice(i, 0, lifetime);
+        if (i > 0)
+            lifetimes[i - 1].endLine = line;
+        if (i + 1 < lifetimes.length)
+            lifetime.endLine = lifetimes[i + 1].startLine;
+        return lifetime;
+    }
+
+    /**
+     * Add a message to record it as activity of its sender and receiver instances.
+     * @param msg the message
+     * @param line the line of the message (by default the line of its source range)
+     */
+    public addMessage(msg : MessageOccurrance, line : number = msg.range?.startLine ?? msg.sender.line) : void {
+        let data = msg.data;
+        this.recordActivity(msg.sender.text, { line, time: data.time1_send ?? data.time2_receive ?? data.time3_handle, message: msg });
+        this.recordActivity(msg.receiver.text, { line, time: data.time3_handle ?? data.time2_receive ?? data.time1_send, message: msg });
+    }
+
+    /**
+     * Record a timestamp of a node other than a message (e.g. a note), to know the time when subsequent
+     * instances are declared.
+     */
+    public addTime(time : number | undefined) : void {
+        if (time !== undefined && (this.latestTime === undefined || time > this.latestTime))
+            this.latestTime = time;
+    }
+
+    /**
+     * Return the instance that has an address at a certain line. If the address is used before the first
+     * declaration at that address, the first instance declared at the address is returned.
+     * @param address an address token or its text
+     * @param line a line number (by default the last line, i.e. the latest instance with the address is returned)
+     */
+    public resolveAtLine(address : Token | string, line? : number) : InstanceDecl | undefined {
+        return this.lifetimeAtLine(address, line)?.instance;
+    }
+
+    /**
+     * Return the instance that has an address at a certain time. If the address is used before the first
+     * declaration at that address, the first instance declared at the address is returned.
+     * @param address an address token or its text
+     * @param time a timestamp as found in the trace
+     */
+    public resolveAtTime(address : Token | string, time : number) : InstanceDecl | undefined {
+        let lifetimes = this.getLifetimes(address);
+        for (let i = lifetimes.length - 1; i > 0; i--) {
+            let startTime = lifetimes[i].startTime;
+            if (startTime === undefined || startTime <= time)
+                return lifetimes[i].instance;
+        }
+        return lifetimes[0]?.instance;
+    }
+
+    /**
+     * Return the instance that sent a message
+     */
+    public getSender(msg : MessageOccurrance) : InstanceDecl | undefined {
+        return this.resolveAtLine(msg.sender, msg.range?.startLine ?? msg.sender.line);
+    }
+
+    /**
+     * Return the instance that received a message
+     */
+    public getReceiver(msg : MessageOccurrance) : InstanceDecl | undefined {
+        return this.resolveAtLine(msg.receiver, msg.range?.startLine ?? msg.receiver.line);
+    }
+
+    /**
+     * Return the lifetime of the instance that has an address at a certain line (see resolveAtLine())
+     */
+    public lifetimeAtLine(address : Token | string, line? : number) : InstanceLifetime | undefined {
+        let lifetimes = this.getLifetimes(address);
+        if (line !== undefined) {
+            for (let i = lifetimes.length - 1; i > 0; i--) {
+                if (lifetimes[i].startLine <= line)
+                    return lifetimes[i];
             }
+            return lifetimes[0];
         }
+        return lifetimes[lifetimes.length - 1];
+    }
 
-        return result;
+    /**
+     * Return the lifetimes of all instances declared at an address, in the order they were declared
+     */
+    public getLifetimes(address : Token | string) : InstanceLifetime[] {
+        return this.lifetimes.get(normalizeAddress(typeof address === 'string' ? address : address.text)) ?? [];
+    }
+
+    /**
+     * Return the lifetimes of all instances in the registry
+     */
+    public *allLifetimes() : IterableIterator<InstanceLifetime> {
+        for (let lifetimes of this.lifetimes.values()) {
+            yield* lifetimes;
+        }
+    }
+
+    private recordActivity(address : string, activity : InstanceActivity) : void {
+        this.addTime(activity.time);
+        let lifetime = this.lifetimeAtLine(address, activity.line);
+        if (!lifetime)
+            return;
+        lifetime.messageCount++;
+        if (!lifetime.firstActivity || activity.line < lifetime.firstActivity.line)
+            lifetime.firstActivity = activity;
+        if (!lifetime.lastActivity || activity.line >= lifetime.lastActivity.line)
+            lifetime.lastActivity = activity;
+    }
+}
+
+/**
+ * A whole parsed trace. In addition to the AST nodes of the trace it keeps an instance table, the 
+ * trace configuration and the list of messages, which most tools built on the TraceParser need.
+ */
+export class TraceDocument {
+    readonly traceParser : TraceParser;
+    nodes : TraceNode[] = []; // All AST nodes in the order they appear in the trace
+    instances = new Map<string, InstanceDecl>(); // Latest declared instance keyed by its normalized address
+    registry = new InstanceRegistry(); // All declared instances with their lifetimes
+    messages : MessageOccurrance[] = [];
+    notes : Note[] = [];
+    lineCount : number = 0; // Number of lines parsed so far
+
+    constructor(traceParser : TraceParser = new TraceParser()) {
+        this.traceParser = traceParser;
+    }
+
+    /**
+     * The trace configuration found in the trace (if any)
+     */
+    get traceConfiguration() : TraceConfiguration | undefined {
+        return this.traceParser.traceConfiguration;
+    }
+
+    /**
+     * Diagnostics reported for all lines parsed so far
+     */
+    get diagnostics() : ParseDiagnostic[] {
+        return this.traceParser.diagnostics;
+    }
+
+    /**
+     * Normalizes the timestamps of the trace according to its configuration
+     */
+    get timestamps() : TimestampNormalizer {
+        return this.traceParser.timestamps;
+    }
+
+    /**
+     * Return the instance declared at an address. Since addresses can be reused, an address token
+     * (e.g. the sender or receiver of a message) is resolved at the line where it appears.
+     * @param address an address token or its text
+     * @param line line where the address is used (by default the line of the token, or the last line for a text)
+     */
+    public getInstance(address : Token | string, line? : number) : InstanceDecl | undefined {
+        if (line === undefined && typeof address !== 'string' && address.line > 0)
+            line = address.line;
+        return this.registry.resolveAtLine(address, line);
+    }
+
+    /**
+     * Parse the next line of the trace and add its AST node (if any) to the document
+     * @param line a line from a trace file
+     * @returns an AST node or null in case of syntax error
+     */
+    public addLine(line : string) : TraceNode | null {
+        let astNode = this.traceParser.parseLine(line, ++this.lineCount);
+        if (astNode)
+            this.addNode(astNode, this.lineCount);
+
+        return astNode;
+    }
+
+    /**
+     * Add an AST node that has already been parsed (e.g. from another document) to the document
+     * @param astNode an AST node
+     * @param line the line of the AST node (by default the line of its source range)
+     */
+    public addNode(astNode : TraceNode, line : number = astNode.range?.startLine ?? 0) : void {
+        if (astNode instanceof InstanceDecl) {
+            this.instances.set(normalizeAddress(astNode.address.text), astNode);
+            this.registry.addInstance(astNode, line);
+        }
+        else if (astNode instanceof MessageOccurrance) {
+            this.messages.push(astNode);
+            this.registry.addMessage(astNode, line);
+        }
+        else if (astNode instanceof Note) {
+            this.notes.push(astNode);
+            this.registry.addTime(astNode.data?.time);
+        }
+        this.nodes.push(astNode);
+    }
+
+    /**
+     * Parse the full text of a trace (or a part of it that ends with a complete line) 
+     * @param text text with one or many lines from a trace file
+     */
+    public addText(text : string) : void {
+        for (let line of text.split(/\r?\n/)) {
+            this.addLine(line);
+        }
+    }
+
+    /**
+     * Parse a trace and add its AST nodes to the document. The AST nodes are yielded as they are parsed.
+     * @param input the trace to parse
+     */
+    public async *parse(input : TraceInput) : AsyncGenerator<TraceNode> {
+        for await (const line of traceLines(input)) {
+            let astNode = this.addLine(line);
+            if (astNode)
+                yield astNode;
+        }
+    }
+}
+
+/**
+ * Parse a whole trace
+ * @param input the trace to parse
+ * @param traceParser the TraceParser to use (optional)
+ * @returns the parsed trace
+ */
+export async function parseTrace(input : TraceInput, traceParser? : TraceParser) : Promise<TraceDocument> {
+    let document = new TraceDocument(traceParser);
+    if (typeof input === 'string') {
+        document.addText(input);
+        return document;
+    }
+
+    for await (const astNode of document.parse(input)) {
+        // Nodes are collected by the document
+    }
+    return document;
+}
+
+/**
+ * Split the trace input into lines
+ */
+async function* traceLines(input : TraceInput) : AsyncGenerator<string> {
+    if (typeof input === 'string') {
+        yield* input.split(/\r?\n/);
+        return;
+    }
+
+    if (typeof (input as ReadableTextStream).pipe !== 'function') {
+        // Each element is a line
+        yield* input as Iterable<string> | AsyncIterable<string>;
+        return;
+    }
+
+    // A stream provides chunks of text that don't respect line boundaries
+    let decoder = new TextDecoder('utf-8');
+    let rest = '';
+    for await (const chunk of input as ReadableTextStream) {
+        rest += typeof chunk === 'string' ? chunk : decoder.decode(chunk, {stream: true});
+        let lines = rest.split(/\r?\n/);
+        rest = lines.pop();
+        yield* lines;
     }
-}
\ No newline at end of file
+    rest += decoder.decode();
+    if (rest.length > 0)
+        yield rest;
+}
@@ -0,0 +1,144 @@
+/*******************************************************************************
+Copyright 2026 HCL Software
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*******************************************************************************/
+
+import { AttributeData, InstanceDecl, MessageOccurrance, Note, TraceDocument, TraceParserUtils, type TraceConfiguration, type TraceNode } from "./trace-parser.js";
+
+/**
+ * Utility for writing AST nodes back to .art-trace syntax. Parsing the text written for an AST node
+ * gives an AST node with the same contents (only source ranges may differ).
+ */
+export class TraceWriter {
+    private eol : string;
+
+    /**
+     * Construct the TraceWriter.
+     * @param eol line separator to use when writing multiple lines
+     */
+    constructor(eol : string = '\n') {
+        this.eol = eol;
+    }
+
+    /**
+     * Write an AST node as a line of trace text (without line separator)
+     */
+    public writeNode(astNode : TraceNode) : string {
+        if (astNode instanceof InstanceDecl)
+            return this.writeInstance(astNode);
+        if (astNode instanceof MessageOccurrance)
+            return this.writeMessage(astNode);
+        return this.writeNote(astNode);
+    }
+
+    /**
+     * Write an instance declaration (e.g. instance 0x22cc6833390 guesser[0] : Guesser)
+     */
+    public writeInstance(instanceDecl : InstanceDecl) : string {
+        let text = `instance ${instanceDecl.address.text} ${TraceParserUtils.structureExprToString(instanceDecl.structureExpr)}`;
+        if (instanceDecl.dynamicType)
+            text += ` : ${instanceDecl.dynamicType.text}`;
+        if (instanceDecl.data) {
+            let json : {[key : string] : any} = {};
+            if (instanceDecl.data.thread_name)
+                json.thread_name = instanceDecl.data.thread_name;
+            text += ' ' + writeData(json, instanceDecl.data);
+        }
+        return text;
+    }
+
+    /**
+     * Write a message occurrance (e.g. 0x22cc6833390 guesser.guesserP -> 0x22cc6833260 application.guesserP[0] : ready())
+     */
+    public writeMessage(msg : MessageOccurrance) : string {
+        let sender = `${msg.sender.text} ${msg.senderName}${writePort(msg.senderPort?.text, msg.senderPortIndex)}`;
+        let receiver = `${msg.receiver.text} ${msg.receiverName}${writePort(msg.receiverPort?.text, msg.receiverPortIndex)}`;
+        let text = `${sender} -> ${receiver} : ${msg.event.text}(${msg.data.paramData})`;
+
+        let json : {[key : string] : any} = {};
+        for (let key of ['invoke', 'reply', 'time1_send', 'time2_receive', 'time3_handle'] as const) {
+            if (msg.data[key] !== undefined)
+                json[key] = msg.data[key];
+        }
+        if (Object.keys(json).length > 0 || Object.keys(msg.data.attributes).length > 0)
+            text += ' ' + writeData(json, msg.data, true);
+        return text;
+    }
+
+    /**
+     * Write a note (e.g. note "Start" { "time": 1234 })
+     */
+    public writeNote(note : Note) : string {
+        let text = `note "${note.text}"`;
+        if (note.data) {
+            let json : {[key : string] : any} = {};
+            if (note.data.time !== undefined)
+                json.time = note.data.time;
+            text += ' ' + writeData(json, note.data);
+        }
+        return text;
+    }
+
+    /**
+     * Write a trace configuration as the comment block that appears at the beginning of a trace
+     * @param config a trace configuration (either validated or as parsed from JSON)
+     * @returns the lines of the comment block
+     */
+    public writeConfiguration(config : TraceConfiguration | object) : string[] {
+        let lines = JSON.stringify(config, null, 4).split('\n');
+        return ['// Trace configuration:', ...lines.map(line => `// ${line}`)];
+    }
+
+    /**
+     * Write a whole trace (its trace configuration followed by all its AST nodes)
+     */
+    public writeDocument(document : TraceDocument) : string {
+        let lines : string[] = [];
+        let config = document.traceParser.rawTraceConfiguration ?? document.traceConfiguration;
+        if (config)
+            lines.push(...this.writeConfiguration(config));
+        for (let astNode of document.nodes) {
+            lines.push(this.writeNode(astNode));
+        }
+        return lines.join(this.eol) + this.eol;
+    }
+}
+
+function writePort(port : string | undefined, portIndex : number | undefined) : string {
+    let text = port !== undefined ? `.${port}` : '';
+    if (portIndex !== undefined)
+        text += `[${portIndex}]`;
+    return text;
+}
+
+/**
+ * Write JSON data on the form used in traces (e.g. { "thread_name": "main" })
+ * @param json known properties of the data
+ * @param data data with additional attributes
+ * @param escapeParentheses escape closing parentheses (needed for the data of a message)
+ */
+function writeData(json : {[key : string] : any}, data : AttributeData, escapeParentheses : boolean = false) : string {
+    let properties = {...json, ...data.attributes};
+    let keys = Object.keys(properties).filter(key => properties[key] !== undefined);
+    if (keys.length == 0)
+        return '{}';
+
+    // The parser considers the last closing parenthesis of a message to end its parameter data, so in the data
+    // that follows the parameter data of a message closing parentheses must be escaped. They can only occur
+    // within strings. The data of instances and notes is written as is.
+    let text = keys.map(key => `${JSON.stringify(key)}: ${JSON.stringify(properties[key])}`).join(', ');
+    if (escapeParentheses)
+        text = text.replace(/\)/g, '\\u0029');
+    return `{ ${text} }`;
+}